@@ -0,0 +1,195 @@
+import type { Row } from "@libsql/client";
+import { existsSync, statSync } from "fs";
+import { rename } from "fs/promises";
+import { getDb } from "../db/client";
+import { decodeVector, getActiveModel, type EmbeddingModel } from "./embeddings";
+import {
+  compactHnsw,
+  createHnswIndex,
+  deserializeHnsw,
+  hnswSize,
+  hnswTag,
+  insertVector,
+  removeVector,
+  searchHnsw,
+  serializeHnsw,
+  type HnswIndex,
+  type HnswMatch,
+} from "./hnsw";
+
+// In-process approximate nearest-neighbour index over bookmarks.embedding,
+// saved next to a local database file (bookmarks.db -> bookmarks.db.hnsw).
+// The file is only a cache: it's checked against the bookmarks whenever it's
+// loaded and rebuilt if it's missing, unreadable or made for another model.
+// Each vector is tagged with the embedding_hash it was stored with, so one
+// re-embedded behind the file's back is noticed too.
+
+// Rebuild rather than keep routing through deleted nodes past this share
+const MAX_DELETED_SHARE = 0.25;
+
+// The file's modification time when it was loaded or last saved, so a copy
+// another process (e.g. the daemon) has since rewritten is loaded again
+let loaded: { path: string; index: HnswIndex; mtime: number | null } | null = null;
+
+// Where the index lives, or null when the database isn't a local file
+export function getAnnIndexPath(): string | null {
+  if (process.env.BOOKMARKS_ANN_INDEX_PATH) return process.env.BOOKMARKS_ANN_INDEX_PATH;
+  if (process.env.TURSO_DATABASE_URL && process.env.TURSO_AUTH_TOKEN) return null;
+
+  const url = process.env.BOOKMARKS_DB_URL ?? "file:bookmarks.db";
+  if (!url.startsWith("file:")) return null;
+  const path = url.slice("file:".length).split("?")[0]!;
+  return path && path !== ":memory:" ? `${path}.hnsw` : null;
+}
+
+type StoredEmbedding = { vector: number[]; hash: string | null };
+
+// Stored embeddings from `model`, for every embedded bookmark or just `ids`
+async function readEmbeddings(model: EmbeddingModel, ids?: number[]): Promise<Map<number, StoredEmbedding>> {
+  const db = getDb();
+  const vectors = new Map<number, StoredEmbedding>();
+  const collect = (rows: Row[]) => {
+    for (const row of rows) {
+      const vector = decodeVector(row.embedding);
+      if (vector?.length === model.dim) {
+        vectors.set(row.id as number, { vector, hash: row.embedding_hash as string | null });
+      }
+    }
+  };
+
+  if (!ids) {
+    const result = await db.execute({
+      sql: `SELECT id, embedding, embedding_hash FROM bookmarks
+            WHERE embedding IS NOT NULL AND embedding_model = ? ORDER BY id`,
+      args: [model.name],
+    });
+    collect(result.rows);
+    return vectors;
+  }
+  // Chunked to stay under SQLite's bound-parameter limit
+  for (let i = 0; i < ids.length; i += 500) {
+    const chunk = ids.slice(i, i + 500);
+    const result = await db.execute({
+      sql: `SELECT id, embedding, embedding_hash FROM bookmarks
+            WHERE embedding IS NOT NULL AND embedding_model = ? AND id IN (${chunk.map(() => "?").join(", ")})`,
+      args: [model.name, ...chunk],
+    });
+    collect(result.rows);
+  }
+  return vectors;
+}
+
+function indexMtime(path: string): number | null {
+  return statSync(path, { throwIfNoEntry: false })?.mtimeMs ?? null;
+}
+
+// Write the index and keep it as the loaded copy
+async function saveIndex(path: string, index: HnswIndex): Promise<void> {
+  const tmp = `${path}.tmp`;
+  await Bun.write(tmp, serializeHnsw(index));
+  await rename(tmp, path);
+  loaded = { path, index, mtime: indexMtime(path) };
+}
+
+async function readIndexFile(path: string, model: EmbeddingModel): Promise<HnswIndex | null> {
+  if (!existsSync(path)) return null;
+  try {
+    const index = deserializeHnsw(new Uint8Array(await Bun.file(path).arrayBuffer()));
+    return index.label === model.name && index.dim === model.dim ? index : null;
+  } catch (err) {
+    console.error(`Ignoring unreadable ANN index ${path}: ${err instanceof Error ? err.message : String(err)}`);
+    return null;
+  }
+}
+
+// Bring a loaded index in line with the embedded bookmarks, re-reading the
+// vectors that are missing or tagged with another hash; true if it changed
+async function reconcile(index: HnswIndex, model: EmbeddingModel): Promise<boolean> {
+  const result = await getDb().execute({
+    sql: "SELECT id, embedding_hash FROM bookmarks WHERE embedding IS NOT NULL AND embedding_model = ?",
+    args: [model.name],
+  });
+  const embedded = new Map(result.rows.map((row) => [row.id as number, row.embedding_hash as string | null]));
+
+  let changed = false;
+  for (const id of [...index.nodeById.keys()]) {
+    if (!embedded.has(id)) changed = removeVector(index, id) || changed;
+  }
+  const stale = [...embedded].filter(([id, hash]) => hnswTag(index, id) !== hash).map(([id]) => id);
+  for (const [id, { vector, hash }] of await readEmbeddings(model, stale)) {
+    insertVector(index, id, vector, hash);
+    changed = true;
+  }
+  return changed;
+}
+
+// Build the index from scratch from every stored embedding
+export async function rebuildAnnIndex(model?: EmbeddingModel): Promise<number> {
+  const path = getAnnIndexPath();
+  if (!path) throw new Error("The ANN index needs a local database file");
+
+  model ??= await getActiveModel();
+  const index = createHnswIndex(model.dim, {}, model.name);
+  for (const [id, { vector, hash }] of await readEmbeddings(model)) {
+    insertVector(index, id, vector, hash);
+  }
+  await saveIndex(path, index);
+  return hnswSize(index);
+}
+
+// The index for the current database and model, kept in memory until the
+// file changes under it
+export async function loadAnnIndex(model?: EmbeddingModel): Promise<HnswIndex | null> {
+  const path = getAnnIndexPath();
+  if (!path) return null;
+  model ??= await getActiveModel();
+  if (loaded?.path === path && loaded.index.label === model.name && loaded.mtime === indexMtime(path)) {
+    return loaded.index;
+  }
+
+  let index = await readIndexFile(path, model);
+  if (!index) {
+    await rebuildAnnIndex(model);
+    return loaded!.index;
+  }
+
+  let changed = await reconcile(index, model);
+  if (index.deleted.size > index.ids.length * MAX_DELETED_SHARE) {
+    index = compactHnsw(index);
+    changed = true;
+  }
+  if (changed) await saveIndex(path, index);
+  else loaded = { path, index, mtime: indexMtime(path) };
+  return index;
+}
+
+// Record freshly stored embeddings, e.g. from generateEmbeddings. Without an
+// index yet there's nothing to update; it's built on first use.
+export async function addToAnnIndex(
+  entries: { id: number; vector: number[]; hash: string | null }[],
+  model: EmbeddingModel
+): Promise<void> {
+  const path = getAnnIndexPath();
+  if (entries.length === 0 || !path) return;
+  if (loaded?.path !== path && !existsSync(path)) return;
+
+  const index = (await loadAnnIndex(model))!;
+  for (const { id, vector, hash } of entries) {
+    insertVector(index, id, vector, hash);
+  }
+  await saveIndex(path, index);
+}
+
+export async function searchAnnIndex(
+  vector: number[],
+  limit: number,
+  model: EmbeddingModel
+): Promise<HnswMatch[] | null> {
+  const index = await loadAnnIndex(model);
+  return index ? searchHnsw(index, vector, limit) : null;
+}
+
+// Drop the in-memory copy, e.g. after switching databases
+export function resetAnnIndex(): void {
+  loaded = null;
+}
@@ -0,0 +1,96 @@
+import { getDb } from "../db/client";
+import { decodeVector, getActiveModel } from "./embeddings";
+import { loadAnnIndex } from "./annIndex";
+import { nearestBookmarks, VECTOR_SEARCH_METHODS, type VectorSearchMethod } from "./search";
+
+// Compare the vector search methods on the stored embeddings: each query is
+// an existing bookmark's vector, and the exact scan is the ground truth for
+// recall (the share of the true top `limit` a method returns). A result that
+// ties with the last true match counts, since either could be returned.
+
+export interface MethodBenchmark {
+  method: VectorSearchMethod;
+  error: string | null; // Why the method couldn't run
+  setupMs: number; // Loading or building the index before the first query
+  recall: number;
+  meanMs: number;
+  p95Ms: number;
+}
+
+export interface VectorBenchmark {
+  vectors: number;
+  queries: number;
+  limit: number;
+  methods: MethodBenchmark[];
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+}
+
+// Up to `count` stored embeddings, spread evenly over the collection
+async function sampleQueries(count: number): Promise<{ total: number; queries: number[][] }> {
+  const { name } = await getActiveModel();
+  const result = await getDb().execute({
+    sql: "SELECT embedding FROM bookmarks WHERE embedding IS NOT NULL AND embedding_model = ? ORDER BY id",
+    args: [name],
+  });
+  const vectors = result.rows.map((row) => decodeVector(row.embedding)).filter((v): v is number[] => v !== null);
+  const step = Math.max(1, vectors.length / count);
+  const queries: number[][] = [];
+  for (let i = 0; i < vectors.length && queries.length < count; i += step) {
+    queries.push(vectors[Math.floor(i)]!);
+  }
+  return { total: vectors.length, queries };
+}
+
+export async function benchmarkVectorSearch(
+  options: { queries?: number; limit?: number } = {}
+): Promise<VectorBenchmark> {
+  const limit = options.limit ?? 10;
+  const { total, queries } = await sampleQueries(options.queries ?? 50);
+
+  const truth: { ids: Set<number>; cutoff: number }[] = [];
+  for (const query of queries) {
+    const results = await nearestBookmarks(query, limit, "scan");
+    truth.push({
+      ids: new Set(results.map((r) => r.bookmark.id)),
+      cutoff: (results[results.length - 1]?.score ?? Infinity) - 1e-6,
+    });
+  }
+
+  const methods: MethodBenchmark[] = [];
+  for (const method of VECTOR_SEARCH_METHODS) {
+    const run: MethodBenchmark = { method, error: null, setupMs: 0, recall: 0, meanMs: 0, p95Ms: 0 };
+    methods.push(run);
+
+    try {
+      const setupStart = performance.now();
+      if (method === "hnsw" && !(await loadAnnIndex())) {
+        throw new Error("needs a local database file");
+      }
+      run.setupMs = performance.now() - setupStart;
+
+      const times: number[] = [];
+      let found = 0;
+      let expected = 0;
+      for (const [i, query] of queries.entries()) {
+        const start = performance.now();
+        const results = await nearestBookmarks(query, limit, method);
+        times.push(performance.now() - start);
+        const { ids, cutoff } = truth[i]!;
+        found += results.filter((r) => ids.has(r.bookmark.id) || r.score >= cutoff).length;
+        expected += ids.size;
+      }
+
+      times.sort((a, b) => a - b);
+      run.recall = expected > 0 ? found / expected : 1;
+      run.meanMs = times.reduce((sum, t) => sum + t, 0) / Math.max(1, times.length);
+      run.p95Ms = percentile(times, 0.95);
+    } catch (err) {
+      run.error = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return { vectors: total, queries: queries.length, limit, methods };
+}
@@ -0,0 +1,214 @@
+import { createHash } from "crypto";
+import type { InValue } from "@libsql/client";
+import { getDb } from "../db/client";
+import { UNKNOWN_AUTHOR } from "../db/queries";
+
+// The text a bookmark is embedded as: who wrote it, the tweet with Twitter's
+// markup cleaned up, the tweet it quotes, the rest of its thread and the titles
+// of the pages it links to. A hash of the document is stored with the vector,
+// so a bookmark is only re-embedded when its document actually changes, and
+// so are the bookmark's synced_at and thread_synced_at: documents are only
+// rebuilt for bookmarks that were synced or had their thread rebuilt since.
+
+export interface DocumentSource {
+  content: string;
+  username: string | null;
+  display_name: string | null;
+  links: { title: string | null; display_url: string | null }[];
+  quoted: { author_username: string | null; content: string | null }[];
+  thread_text: string | null;
+  // Display names of known accounts by lowercase handle, to follow mentions with
+  mention_names?: ReadonlyMap<string, string>;
+}
+
+export interface BookmarkDocument {
+  id: number;
+  document: string;
+  hash: string;
+  // The bookmark's, when the document was built
+  synced_at: string;
+  thread_synced_at: string | null;
+}
+
+// A condition on bookmarks (aliased `b`) picking the ones to build documents for
+export interface DocumentCandidates {
+  sql: string;
+  args: InValue[];
+}
+
+const ENTITIES: Record<string, string> = { amp: "&", lt: "<", gt: ">", quot: '"', apos: "'", nbsp: " " };
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === "#") {
+      const code = entity[1] === "x" || entity[1] === "X" ? parseInt(entity.slice(2), 16) : Number(entity.slice(1));
+      return code > 0 && code <= 0x10ffff ? String.fromCodePoint(code) : match;
+    }
+    return ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+// "#MachineLearning" reads as "Machine Learning"
+function splitWords(tag: string): string {
+  return tag
+    .replace(/_+/g, " ")
+    .replace(/([a-z0-9])([A-Z])/g, "$1 $2")
+    .replace(/([A-Z]+)([A-Z][a-z])/g, "$1 $2")
+    .trim();
+}
+
+// Tweet text as prose: t.co links dropped (their titles are added separately),
+// entities decoded, hashtags spelled out, whitespace tidied. Mentions keep
+// their @handle form, which is how people search for them, followed by the
+// account's display name when it's known: "@rust_lang (Rust Language)".
+export function normalizeTweetText(text: string, mentionNames?: ReadonlyMap<string, string>): string {
+  return decodeEntities(text.replace(/https?:\/\/t\.co\/\w+/g, ""))
+    .replace(/(^|[^\w&])#(\w*[a-z_]\w*)/gi, (_, before: string, tag: string) => before + splitWords(tag))
+    .replace(/(^|[^\w@])@(\w{1,15})\b/g, (mention: string, _before: string, handle: string) => {
+      const name = mentionNames?.get(handle.toLowerCase());
+      return name ? `${mention} (${name})` : mention;
+    })
+    .split("\n")
+    .map((line) => line.replace(/[ \t]+/g, " ").trim())
+    .join("\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+export function buildDocument(source: DocumentSource): string {
+  const author = [source.display_name, source.username && `@${source.username}`].filter(Boolean).join(" ");
+  const sections = [author ? `${author}:` : "", normalizeTweetText(source.content, source.mention_names)];
+
+  for (const quote of source.quoted) {
+    if (!quote.content) continue;
+    const by = quote.author_username ? ` @${quote.author_username}` : "";
+    sections.push(`Quoting${by}: ${normalizeTweetText(quote.content, source.mention_names)}`);
+  }
+  if (source.thread_text) sections.push(normalizeTweetText(source.thread_text, source.mention_names));
+  for (const link of source.links) {
+    // A bare display URL still says where the link goes
+    const label = link.title ?? link.display_url;
+    if (label) sections.push(`Link: ${decodeEntities(label).trim()}`);
+  }
+
+  return sections.filter(Boolean).join("\n\n");
+}
+
+export function documentHash(document: string): string {
+  return createHash("sha256").update(document).digest("hex");
+}
+
+// Reconstructed thread text for the bookmark aliased as `b`, in thread order
+const THREAD_TEXT_SQL = `(SELECT group_concat(content, char(10) || char(10))
+  FROM (SELECT content FROM thread_tweets WHERE bookmark_id = b.id ORDER BY position))`;
+
+function groupByBookmark<T extends { bookmark_id: number }>(rows: T[]): Map<number, T[]> {
+  const grouped = new Map<number, T[]>();
+  for (const row of rows) {
+    const list = grouped.get(row.bookmark_id) ?? [];
+    list.push(row);
+    grouped.set(row.bookmark_id, list);
+  }
+  return grouped;
+}
+
+// Display names of the accounts in the authors table by lowercase handle,
+// skipping ones that would only repeat the handle and the archive's
+// placeholder for authors it couldn't tell
+async function getMentionNames(): Promise<Map<string, string>> {
+  const result = await getDb().execute({
+    sql: `SELECT username, display_name FROM authors
+     WHERE display_name IS NOT NULL AND display_name != '' AND twitter_id != ?
+     ORDER BY id`,
+    args: [UNKNOWN_AUTHOR.twitter_id],
+  });
+  const names = new Map<string, string>();
+  for (const row of result.rows) {
+    const username = (row.username as string).toLowerCase();
+    const name = (row.display_name as string).trim();
+    if (name && name.toLowerCase() !== username) names.set(username, name);
+  }
+  return names;
+}
+
+// Bookmarks whose vector from `model` may be out of date: none yet, or synced
+// (or their thread rebuilt) since its document was built
+export function embeddingCandidates(model: string): DocumentCandidates {
+  return {
+    sql: `b.embedding IS NULL OR b.embedding_hash IS NULL OR b.embedding_model IS NOT ?
+      OR b.embedding_synced_at IS NOT b.synced_at OR b.embedding_thread_synced_at IS NOT b.thread_synced_at`,
+    args: [model],
+  };
+}
+
+// Documents for every bookmark (or just the candidates), newest first, each
+// with the hash and model of the stored embedding so callers can tell which
+// are out of date
+export async function getBookmarkDocuments(candidates?: DocumentCandidates): Promise<
+  (BookmarkDocument & { embedding_hash: string | null; embedding_model: string | null })[]
+> {
+  const db = getDb();
+  const where = candidates ? `(${candidates.sql})` : "1";
+  const args = candidates?.args ?? [];
+  const ofCandidates = candidates ? `bookmark_id IN (SELECT b.id FROM bookmarks b WHERE ${where})` : "1";
+  const [bookmarks, links, quoted, mentionNames] = await Promise.all([
+    db.execute({
+      sql: `SELECT b.id, b.content, b.synced_at, b.thread_synced_at, a.username, a.display_name,
+         ${THREAD_TEXT_SQL} AS thread_text,
+         CASE WHEN b.embedding IS NULL THEN NULL ELSE b.embedding_hash END AS embedding_hash,
+         b.embedding_model
+       FROM bookmarks b
+       LEFT JOIN authors a ON b.author_id = a.id
+       WHERE ${where}
+       ORDER BY b.bookmarked_at DESC, b.feed_position ASC`,
+      args,
+    }),
+    db.execute({
+      sql: `SELECT bookmark_id, title, display_url FROM bookmark_links
+       WHERE ${ofCandidates} ORDER BY bookmark_id, position`,
+      args,
+    }),
+    db.execute({
+      sql: `SELECT bookmark_id, author_username, content FROM referenced_tweets
+       WHERE type = 'quoted' AND ${ofCandidates} ORDER BY bookmark_id, id`,
+      args,
+    }),
+    getMentionNames(),
+  ]);
+  const linksById = groupByBookmark(
+    links.rows.map((row) => ({
+      bookmark_id: row.bookmark_id as number,
+      title: row.title as string | null,
+      display_url: row.display_url as string | null,
+    }))
+  );
+  const quotedById = groupByBookmark(
+    quoted.rows.map((row) => ({
+      bookmark_id: row.bookmark_id as number,
+      author_username: row.author_username as string | null,
+      content: row.content as string | null,
+    }))
+  );
+
+  return bookmarks.rows.map((row) => {
+    const id = row.id as number;
+    const document = buildDocument({
+      content: row.content as string,
+      username: row.username as string | null,
+      display_name: row.display_name as string | null,
+      links: linksById.get(id) ?? [],
+      quoted: quotedById.get(id) ?? [],
+      thread_text: row.thread_text as string | null,
+      mention_names: mentionNames,
+    });
+    return {
+      id,
+      document,
+      hash: documentHash(document),
+      synced_at: row.synced_at as string,
+      thread_synced_at: row.thread_synced_at as string | null,
+      embedding_hash: row.embedding_hash as string | null,
+      embedding_model: row.embedding_model as string | null,
+    };
+  });
+}
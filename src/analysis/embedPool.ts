@@ -0,0 +1,118 @@
+// A fixed set of worker threads, each with its own copy of the model, that
+// embed batches in parallel. Batches queue until a worker is free.
+
+export interface EmbeddingPool {
+  // Embed documents with the model of that id, `batchSize` texts per pass
+  // through the model (EMBED_BATCH_SIZE by default)
+  embed(texts: string[], model: string, batchSize?: number): Promise<number[][]>;
+  close(): void;
+}
+
+interface Task {
+  id: number;
+  texts: string[];
+  model: string;
+  batchSize?: number;
+  resolve(vectors: number[][]): void;
+  reject(err: Error): void;
+}
+
+type WorkerReply = { id: number; vectors: number[][] } | { id: number; error: string };
+
+const DEFAULT_WORKER = new URL("./embedWorker.ts", import.meta.url);
+
+// Worker count from EMBEDDING_WORKERS; 0 or unset embeds on the main thread
+export function getEmbeddingWorkers(): number {
+  const workers = Number(process.env.EMBEDDING_WORKERS ?? 0);
+  return Number.isInteger(workers) && workers > 0 ? workers : 0;
+}
+
+export function createEmbeddingPool(size: number, workerUrl: URL = DEFAULT_WORKER): EmbeddingPool {
+  const queue: Task[] = [];
+  const running = new Map<Worker, Task>();
+  const idle: Worker[] = [];
+  const workers = new Set<Worker>();
+  // Workers whose batch already failed with the error that is ending them
+  const failing = new Set<Worker>();
+  let nextId = 0;
+  let closed = false;
+
+  const dispatch = () => {
+    while (idle.length > 0 && queue.length > 0) {
+      const worker = idle.pop()!;
+      const task = queue.shift()!;
+      running.set(worker, task);
+      worker.postMessage({ id: task.id, texts: task.texts, model: task.model, batchSize: task.batchSize });
+    }
+  };
+
+  const settle = (worker: Worker, reply: WorkerReply) => {
+    const task = running.get(worker);
+    running.delete(worker);
+    idle.push(worker);
+    if (task) {
+      if ("error" in reply) task.reject(new Error(reply.error));
+      else task.resolve(reply.vectors);
+    }
+    dispatch();
+  };
+
+  // Reject whatever the worker was embedding; returns whether it was busy
+  const fail = (worker: Worker, message: string): boolean => {
+    const task = running.get(worker);
+    running.delete(worker);
+    task?.reject(new Error(message));
+    return task !== undefined;
+  };
+
+  const spawn = () => {
+    const worker = new Worker(workerUrl);
+    worker.onmessage = (event: MessageEvent<WorkerReply>) => settle(worker, event.data);
+    // An uncaught error ends the worker; "close" follows
+    worker.onerror = (event: ErrorEvent) => {
+      event.preventDefault();
+      if (fail(worker, event.message)) failing.add(worker);
+    };
+    worker.addEventListener("close", (event) => {
+      workers.delete(worker);
+      const index = idle.indexOf(worker);
+      if (index !== -1) idle.splice(index, 1);
+      const code = (event as Event & { code?: number }).code;
+      const busy = fail(worker, `Embedding worker exited (code ${code ?? "unknown"})`) || failing.delete(worker);
+      if (closed) return;
+
+      // Replace a worker a batch took down. One that died on its own (e.g.
+      // failing to start) would only die again, so it isn't.
+      if (busy) spawn();
+      if (workers.size === 0) {
+        const error = new Error("Every embedding worker exited");
+        for (const task of queue) task.reject(error);
+        queue.length = 0;
+      }
+      dispatch();
+    });
+    workers.add(worker);
+    idle.push(worker);
+  };
+
+  for (let i = 0; i < size; i++) spawn();
+
+  return {
+    embed(texts, model, batchSize) {
+      if (closed) return Promise.reject(new Error("Embedding pool is closed"));
+      if (workers.size === 0) return Promise.reject(new Error("Every embedding worker exited"));
+      return new Promise((resolve, reject) => {
+        queue.push({ id: nextId++, texts, model, batchSize, resolve, reject });
+        dispatch();
+      });
+    },
+    close() {
+      closed = true;
+      for (const worker of workers) worker.terminate();
+      const error = new Error("Embedding pool is closed");
+      for (const task of [...queue, ...running.values()]) task.reject(error);
+      queue.length = 0;
+      running.clear();
+    },
+  };
+}
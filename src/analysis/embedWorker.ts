@@ -0,0 +1,20 @@
+import { embedBatch, findEmbeddingModel } from "./embeddings";
+
+// Runs in a worker thread for createEmbeddingPool: each message is a batch of
+// texts, run through the model `batchSize` at a time and answered with their
+// vectors (or the error) under the same id.
+
+declare const self: Worker;
+
+self.onmessage = async (
+  event: MessageEvent<{ id: number; texts: string[]; model: string; batchSize?: number }>
+) => {
+  const { id, texts, model, batchSize } = event.data;
+  try {
+    const embeddingModel = findEmbeddingModel(model);
+    if (!embeddingModel) throw new Error(`Unknown embedding model: ${model}`);
+    self.postMessage({ id, vectors: await embedBatch(texts, embeddingModel, "document", batchSize) });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};
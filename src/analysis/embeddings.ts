@@ -1,43 +1,146 @@
-import { pipeline, type FeatureExtractionPipeline } from "@xenova/transformers";
+import type { FeatureExtractionPipeline } from "@xenova/transformers";
+import { getEmbeddingState } from "../db/queries";
 
-let extractor: FeatureExtractionPipeline | null = null;
+// Local models that can produce the stored embeddings. Bookmarks record which
+// model made their vector, and only vectors from the active model (the one in
+// embedding_state) are ever compared; switching models re-embeds everything.
+export interface EmbeddingModel {
+  id: string; // Short name for the CLI
+  name: string; // Hugging Face model, as stored in bookmarks.embedding_model
+  dim: number;
+  pooling: "mean" | "cls";
+  queryPrefix: string; // Some models expect queries and documents to be marked
+  documentPrefix: string;
+  description: string;
+}
+
+export const EMBEDDING_MODELS: EmbeddingModel[] = [
+  {
+    id: "minilm",
+    name: "Xenova/all-MiniLM-L6-v2",
+    dim: 384,
+    pooling: "mean",
+    queryPrefix: "",
+    documentPrefix: "",
+    description: "Small and fast, English (default)",
+  },
+  {
+    id: "multilingual-minilm",
+    name: "Xenova/paraphrase-multilingual-MiniLM-L12-v2",
+    dim: 384,
+    pooling: "mean",
+    queryPrefix: "",
+    documentPrefix: "",
+    description: "50+ languages",
+  },
+  {
+    id: "bge-small",
+    name: "Xenova/bge-small-en-v1.5",
+    dim: 384,
+    pooling: "cls",
+    queryPrefix: "Represent this sentence for searching relevant passages: ",
+    documentPrefix: "",
+    description: "Better English retrieval, same size",
+  },
+  {
+    id: "e5-small",
+    name: "Xenova/multilingual-e5-small",
+    dim: 384,
+    pooling: "mean",
+    queryPrefix: "query: ",
+    documentPrefix: "passage: ",
+    description: "Multilingual retrieval",
+  },
+  {
+    id: "nomic",
+    name: "nomic-ai/nomic-embed-text-v1.5",
+    dim: 768,
+    pooling: "mean",
+    queryPrefix: "search_query: ",
+    documentPrefix: "search_document: ",
+    description: "Long inputs, strongest and slowest",
+  },
+];
+
+export const DEFAULT_EMBEDDING_MODEL = EMBEDDING_MODELS[0]!;
+
+// Whether text is a search query or a bookmark being indexed
+export type EmbedKind = "query" | "document";
 
-const MODEL_NAME = "Xenova/all-MiniLM-L6-v2";
+const extractors = new Map<string, FeatureExtractionPipeline>();
+
+// Look a model up by short id or full name
+export function findEmbeddingModel(idOrName: string): EmbeddingModel | undefined {
+  return EMBEDDING_MODELS.find((m) => m.id === idOrName || m.name === idOrName);
+}
+
+// The model the stored embeddings belong to
+export async function getActiveModel(): Promise<EmbeddingModel> {
+  const { model } = await getEmbeddingState();
+  const active = findEmbeddingModel(model);
+  if (!active) throw new Error(`Embeddings were made with an unsupported model: ${model}`);
+  return active;
+}
 
-export async function getEmbedder(): Promise<FeatureExtractionPipeline> {
+export async function getEmbedder(model: EmbeddingModel): Promise<FeatureExtractionPipeline> {
+  let extractor = extractors.get(model.name);
   if (!extractor) {
-    console.log("Loading embedding model (first time may take a moment)...");
-    extractor = await pipeline("feature-extraction", MODEL_NAME, {
+    console.log(`Loading embedding model ${model.name} (first time may take a moment)...`);
+    // Loaded on first use, so commands that never embed skip its native modules
+    const { pipeline } = await import("@xenova/transformers");
+    extractor = await pipeline("feature-extraction", model.name, {
       quantized: true,
     });
+    extractors.set(model.name, extractor);
     console.log("Model loaded.");
   }
   return extractor;
 }
 
-export async function embed(text: string): Promise<number[]> {
-  const model = await getEmbedder();
-  const output = await model(text, { pooling: "mean", normalize: true });
+function withPrefix(model: EmbeddingModel, text: string, kind: EmbedKind): string {
+  return `${kind === "query" ? model.queryPrefix : model.documentPrefix}${text}`;
+}
+
+export async function embed(text: string, model: EmbeddingModel, kind: EmbedKind = "query"): Promise<number[]> {
+  const extractor = await getEmbedder(model);
+  const output = await extractor(withPrefix(model, text, kind), { pooling: model.pooling, normalize: true });
   return Array.from(output.data as Float32Array);
 }
 
-export async function embedBatch(texts: string[]): Promise<number[][]> {
-  const model = await getEmbedder();
+// Texts per forward pass; larger batches are faster but pad every text to the longest
+export const EMBED_BATCH_SIZE = 32;
+
+export async function embedBatch(
+  texts: string[],
+  model: EmbeddingModel,
+  kind: EmbedKind = "document",
+  batchSize = EMBED_BATCH_SIZE
+): Promise<number[][]> {
+  const extractor = await getEmbedder(model);
   const results: number[][] = [];
 
-  // Process in smaller batches to avoid memory issues
-  const batchSize = 32;
   for (let i = 0; i < texts.length; i += batchSize) {
     const batch = texts.slice(i, i + batchSize);
-    for (const text of batch) {
-      const output = await model(text, { pooling: "mean", normalize: true });
-      results.push(Array.from(output.data as Float32Array));
+    // One [batch, dim] tensor for the whole batch
+    const output = await extractor(
+      batch.map((text) => withPrefix(model, text, kind)),
+      { pooling: model.pooling, normalize: true }
+    );
+    const data = output.data as Float32Array;
+    const dim = data.length / batch.length;
+    for (let row = 0; row < batch.length; row++) {
+      results.push(Array.from(data.subarray(row * dim, (row + 1) * dim)));
     }
   }
 
   return results;
 }
 
+// Forget loaded models, e.g. between tests
+export function resetEmbedder(): void {
+  extractors.clear();
+}
+
 export function cosineSimilarity(a: number[], b: number[]): number {
   if (a.length !== b.length) {
     throw new Error("Vectors must have same length");
@@ -60,3 +163,12 @@ export function cosineSimilarity(a: number[], b: number[]): number {
 
   return dotProduct / magnitude;
 }
+
+// Embeddings are stored as F32_BLOB: little-endian float32s, read back as bytes
+export function decodeVector(value: unknown): number[] | null {
+  if (value instanceof ArrayBuffer) return Array.from(new Float32Array(value));
+  if (value instanceof Uint8Array) {
+    return Array.from(new Float32Array(value.buffer, value.byteOffset, value.byteLength / 4));
+  }
+  return null;
+}
@@ -0,0 +1,431 @@
+// Hierarchical Navigable Small World graph (Malkov & Yashunin) for approximate
+// nearest-neighbour search by cosine similarity. Vectors are normalised on
+// insert, so distance is 1 - dot product.
+//
+// Removing a vector only marks its node deleted: it keeps routing searches but
+// never shows up in results. Re-inserting an id replaces its node that way.
+
+export interface HnswOptions {
+  m: number; // Links per node on the upper layers; layer 0 gets 2m
+  efConstruction: number; // Candidate list size while inserting
+  seed: number; // Level assignment is random but reproducible
+}
+
+export interface HnswIndex extends HnswOptions {
+  dim: number;
+  label: string; // What the vectors are (e.g. which model made them), for callers to check
+  ids: number[]; // node -> bookmark id
+  vectors: Float32Array[]; // node -> normalised vector
+  tags: (string | null)[]; // node -> what the caller made the vector from (e.g. a hash), for callers to check
+  links: number[][][]; // node -> layer -> neighbouring nodes
+  deleted: Set<number>; // nodes
+  nodeById: Map<number, number>; // live node for each id
+  entryPoint: number; // -1 while empty
+  maxLevel: number;
+}
+
+export interface HnswMatch {
+  id: number;
+  score: number; // cosine similarity
+}
+
+interface Candidate {
+  node: number;
+  dist: number;
+}
+
+const DEFAULT_OPTIONS: HnswOptions = { m: 16, efConstruction: 200, seed: 1 };
+
+// Default candidate list size for queries; raised to k when k is larger
+export const DEFAULT_EF_SEARCH = 64;
+
+const MAGIC = "HNSW";
+const FORMAT_VERSION = 1;
+
+// Binary heap ordered by `before`
+class Heap<T> {
+  private items: T[] = [];
+  constructor(private before: (a: T, b: T) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): T | undefined {
+    return this.items[0];
+  }
+
+  push(item: T): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i]!, items[parent]!)) break;
+      [items[i], items[parent]] = [items[parent]!, items[i]!];
+      i = parent;
+    }
+  }
+
+  pop(): T | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last !== undefined) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let best = i;
+        if (left < items.length && this.before(items[left]!, items[best]!)) best = left;
+        if (right < items.length && this.before(items[right]!, items[best]!)) best = right;
+        if (best === i) break;
+        [items[i], items[best]] = [items[best]!, items[i]!];
+        i = best;
+      }
+    }
+    return top;
+  }
+
+  toArray(): T[] {
+    return [...this.items];
+  }
+}
+
+function normalize(vector: ArrayLike<number>): Float32Array {
+  const out = Float32Array.from(vector);
+  let norm = 0;
+  for (let i = 0; i < out.length; i++) norm += out[i]! * out[i]!;
+  norm = Math.sqrt(norm);
+  if (norm > 0) {
+    for (let i = 0; i < out.length; i++) out[i]! /= norm;
+  }
+  return out;
+}
+
+function distance(a: Float32Array, b: Float32Array): number {
+  let dot = 0;
+  for (let i = 0; i < a.length; i++) dot += a[i]! * b[i]!;
+  return 1 - dot;
+}
+
+// mulberry32; advances the index's seed
+function random(index: HnswIndex): number {
+  index.seed = (index.seed + 0x6d2b79f5) | 0;
+  let t = index.seed;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+}
+
+function randomLevel(index: HnswIndex): number {
+  return Math.floor(-Math.log(1 - random(index)) / Math.log(index.m));
+}
+
+function maxLinks(index: HnswIndex, level: number): number {
+  return level === 0 ? index.m * 2 : index.m;
+}
+
+// Greedy beam search within one layer; closest first
+function searchLayer(
+  index: HnswIndex,
+  query: Float32Array,
+  entryPoints: number[],
+  ef: number,
+  level: number
+): Candidate[] {
+  const visited = new Set(entryPoints);
+  const candidates = new Heap<Candidate>((a, b) => a.dist < b.dist);
+  const results = new Heap<Candidate>((a, b) => a.dist > b.dist);
+
+  for (const node of entryPoints) {
+    const c = { node, dist: distance(query, index.vectors[node]!) };
+    candidates.push(c);
+    results.push(c);
+  }
+
+  while (candidates.size > 0) {
+    const current = candidates.pop()!;
+    if (results.size >= ef && current.dist > results.peek()!.dist) break;
+
+    for (const neighbour of index.links[current.node]![level] ?? []) {
+      if (visited.has(neighbour)) continue;
+      visited.add(neighbour);
+      const dist = distance(query, index.vectors[neighbour]!);
+      if (results.size < ef || dist < results.peek()!.dist) {
+        candidates.push({ node: neighbour, dist });
+        results.push({ node: neighbour, dist });
+        if (results.size > ef) results.pop();
+      }
+    }
+  }
+
+  return results.toArray().sort((a, b) => a.dist - b.dist);
+}
+
+// Pick up to `count` neighbours from candidates sorted by distance, preferring
+// ones that aren't already reachable through a closer pick
+function selectNeighbours(index: HnswIndex, candidates: Candidate[], count: number): number[] {
+  const selected: Candidate[] = [];
+  const skipped: Candidate[] = [];
+  for (const c of candidates) {
+    if (selected.length >= count) break;
+    const vector = index.vectors[c.node]!;
+    if (selected.every((s) => distance(vector, index.vectors[s.node]!) > c.dist)) {
+      selected.push(c);
+    } else {
+      skipped.push(c);
+    }
+  }
+  for (const c of skipped) {
+    if (selected.length >= count) break;
+    selected.push(c);
+  }
+  return selected.map((c) => c.node);
+}
+
+// Walk down from the top layer to `level`, keeping the single closest node
+function descend(index: HnswIndex, query: Float32Array, level: number): number[] {
+  let entry = [index.entryPoint];
+  for (let l = index.maxLevel; l > level; l--) {
+    entry = [searchLayer(index, query, entry, 1, l)[0]!.node];
+  }
+  return entry;
+}
+
+export function createHnswIndex(dim: number, options: Partial<HnswOptions> = {}, label = ""): HnswIndex {
+  return {
+    ...DEFAULT_OPTIONS,
+    ...options,
+    dim,
+    label,
+    ids: [],
+    vectors: [],
+    tags: [],
+    links: [],
+    deleted: new Set(),
+    nodeById: new Map(),
+    entryPoint: -1,
+    maxLevel: -1,
+  };
+}
+
+// Number of ids currently searchable
+export function hnswSize(index: HnswIndex): number {
+  return index.nodeById.size;
+}
+
+export function hnswHas(index: HnswIndex, id: number): boolean {
+  return index.nodeById.has(id);
+}
+
+// The tag stored with an id's vector; undefined when the id isn't indexed
+export function hnswTag(index: HnswIndex, id: number): string | null | undefined {
+  const node = index.nodeById.get(id);
+  return node === undefined ? undefined : (index.tags[node] ?? null);
+}
+
+export function removeVector(index: HnswIndex, id: number): boolean {
+  const node = index.nodeById.get(id);
+  if (node === undefined) return false;
+  index.deleted.add(node);
+  index.nodeById.delete(id);
+  return true;
+}
+
+// Add a vector, replacing any earlier one for the same id
+export function insertVector(
+  index: HnswIndex,
+  id: number,
+  vector: ArrayLike<number>,
+  tag: string | null = null
+): void {
+  if (vector.length !== index.dim) {
+    throw new Error(`Expected a ${index.dim}-dimension vector, got ${vector.length}`);
+  }
+  const normalized = normalize(vector);
+
+  const existing = index.nodeById.get(id);
+  if (existing !== undefined) {
+    const old = index.vectors[existing]!;
+    if (old.every((x, i) => x === normalized[i])) {
+      index.tags[existing] = tag;
+      return;
+    }
+    removeVector(index, id);
+  }
+
+  const node = index.ids.length;
+  const level = randomLevel(index);
+  index.ids.push(id);
+  index.vectors.push(normalized);
+  index.tags.push(tag);
+  index.links.push(Array.from({ length: level + 1 }, () => []));
+  index.nodeById.set(id, node);
+
+  if (index.entryPoint === -1) {
+    index.entryPoint = node;
+    index.maxLevel = level;
+    return;
+  }
+
+  let entry = descend(index, normalized, level);
+  for (let l = Math.min(level, index.maxLevel); l >= 0; l--) {
+    const candidates = searchLayer(index, normalized, entry, index.efConstruction, l);
+    const neighbours = selectNeighbours(index, candidates, index.m);
+    index.links[node]![l] = neighbours;
+
+    for (const neighbour of neighbours) {
+      const links = index.links[neighbour]![l]!;
+      links.push(node);
+      if (links.length > maxLinks(index, l)) {
+        const vector = index.vectors[neighbour]!;
+        const ranked = links
+          .map((n) => ({ node: n, dist: distance(vector, index.vectors[n]!) }))
+          .sort((a, b) => a.dist - b.dist);
+        index.links[neighbour]![l] = selectNeighbours(index, ranked, maxLinks(index, l));
+      }
+    }
+    entry = candidates.map((c) => c.node);
+  }
+
+  if (level > index.maxLevel) {
+    index.entryPoint = node;
+    index.maxLevel = level;
+  }
+}
+
+// The k ids most similar to `query`, most similar first
+export function searchHnsw(
+  index: HnswIndex,
+  query: ArrayLike<number>,
+  k: number,
+  ef = DEFAULT_EF_SEARCH
+): HnswMatch[] {
+  if (index.entryPoint === -1 || k <= 0) return [];
+  const normalized = normalize(query);
+  const entry = descend(index, normalized, 0);
+  return searchLayer(index, normalized, entry, Math.max(ef, k), 0)
+    .filter((c) => !index.deleted.has(c.node))
+    .slice(0, k)
+    .map((c) => ({ id: index.ids[c.node]!, score: 1 - c.dist }));
+}
+
+// A copy without deleted nodes, for when they've piled up
+export function compactHnsw(index: HnswIndex): HnswIndex {
+  const { m, efConstruction, seed } = index;
+  const compacted = createHnswIndex(index.dim, { m, efConstruction, seed }, index.label);
+  for (const [id, node] of index.nodeById) {
+    insertVector(compacted, id, index.vectors[node]!, index.tags[node] ?? null);
+  }
+  return compacted;
+}
+
+// Layout: "HNSW", u32 header length, JSON header, padding to 4 bytes,
+// float32 vectors (node by node), then u32 links: per node and layer, a
+// count followed by that many node numbers.
+export function serializeHnsw(index: HnswIndex): Uint8Array {
+  const header = new TextEncoder().encode(
+    JSON.stringify({
+      version: FORMAT_VERSION,
+      dim: index.dim,
+      label: index.label,
+      m: index.m,
+      efConstruction: index.efConstruction,
+      seed: index.seed,
+      entryPoint: index.entryPoint,
+      maxLevel: index.maxLevel,
+      ids: index.ids,
+      tags: index.tags,
+      levels: index.links.map((layers) => layers.length),
+      deleted: [...index.deleted],
+    })
+  );
+
+  const headerEnd = Math.ceil((8 + header.length) / 4) * 4;
+  const linkWords = index.links.reduce(
+    (sum, layers) => sum + layers.reduce((s, links) => s + 1 + links.length, 0),
+    0
+  );
+  const vectorBytes = index.ids.length * index.dim * 4;
+  const bytes = new Uint8Array(headerEnd + vectorBytes + linkWords * 4);
+
+  bytes.set(new TextEncoder().encode(MAGIC), 0);
+  new DataView(bytes.buffer).setUint32(4, header.length, true);
+  bytes.set(header, 8);
+
+  const vectors = new Float32Array(bytes.buffer, headerEnd, index.ids.length * index.dim);
+  index.vectors.forEach((vector, node) => vectors.set(vector, node * index.dim));
+
+  const links = new Uint32Array(bytes.buffer, headerEnd + vectorBytes, linkWords);
+  let offset = 0;
+  for (const layers of index.links) {
+    for (const layer of layers) {
+      links[offset++] = layer.length;
+      links.set(layer, offset);
+      offset += layer.length;
+    }
+  }
+  return bytes;
+}
+
+export function deserializeHnsw(bytes: Uint8Array): HnswIndex {
+  if (new TextDecoder().decode(bytes.subarray(0, 4)) !== MAGIC) {
+    throw new Error("Not an HNSW index file");
+  }
+  // Copy so typed-array views below start at an aligned offset
+  const buffer = bytes.slice().buffer;
+  const headerLength = new DataView(buffer).getUint32(4, true);
+  const header = JSON.parse(new TextDecoder().decode(new Uint8Array(buffer, 8, headerLength))) as {
+    version: number;
+    dim: number;
+    label?: string;
+    m: number;
+    efConstruction: number;
+    seed: number;
+    entryPoint: number;
+    maxLevel: number;
+    ids: number[];
+    tags?: (string | null)[]; // Missing from files written before tags
+    levels: number[];
+    deleted: number[];
+  };
+  if (header.version !== FORMAT_VERSION) {
+    throw new Error(`Unsupported HNSW index version ${header.version}`);
+  }
+
+  const index = createHnswIndex(
+    header.dim,
+    { m: header.m, efConstruction: header.efConstruction, seed: header.seed },
+    header.label ?? ""
+  );
+  index.ids = header.ids;
+  index.tags = header.tags ?? header.ids.map(() => null);
+  index.entryPoint = header.entryPoint;
+  index.maxLevel = header.maxLevel;
+  index.deleted = new Set(header.deleted);
+
+  const headerEnd = Math.ceil((8 + headerLength) / 4) * 4;
+  const vectorBytes = header.ids.length * header.dim * 4;
+  for (let node = 0; node < header.ids.length; node++) {
+    index.vectors.push(new Float32Array(buffer, headerEnd + node * header.dim * 4, header.dim));
+  }
+
+  const links = new Uint32Array(buffer, headerEnd + vectorBytes);
+  let offset = 0;
+  for (const levels of header.levels) {
+    const layers: number[][] = [];
+    for (let l = 0; l < levels; l++) {
+      const count = links[offset++]!;
+      layers.push(Array.from(links.subarray(offset, offset + count)));
+      offset += count;
+    }
+    index.links.push(layers);
+  }
+
+  header.ids.forEach((id, node) => {
+    if (!index.deleted.has(node)) index.nodeById.set(id, node);
+  });
+  return index;
+}
@@ -1,13 +1,29 @@
 import { getDb } from "../db/client";
-import { embed, embedBatch } from "./embeddings";
+import {
+  decodeVector,
+  embedBatch,
+  EMBED_BATCH_SIZE,
+  getActiveModel,
+  type EmbeddingModel,
+} from "./embeddings";
+import { createEmbeddingPool, getEmbeddingWorkers } from "./embedPool";
 import { kmeans, suggestK, getClusterLabels } from "./cluster";
-import { indexBookmarkFts, reindexAllFts } from "./search";
+import { reindexAllFts } from "./search";
+import { embeddingCandidates, getBookmarkDocuments, type BookmarkDocument } from "./document";
+import { addToAnnIndex } from "./annIndex";
 import type { BookmarkWithAuthor } from "../db/queries";
 
 export interface AnalysisProgress {
   phase: "embedding" | "clustering" | "indexing" | "complete";
   current: number;
   total: number;
+  perSecond?: number; // Embedding throughput so far
+  etaSeconds?: number; // Embedding time left at that rate
+}
+
+export interface EmbeddingOptions {
+  batchSize?: number; // Bookmarks per model call and per transaction, with or without workers
+  workers?: number; // Worker threads; 0 embeds on the main thread
 }
 
 export interface AnalysisResult {
@@ -16,85 +32,146 @@ export interface AnalysisResult {
   ftsIndexed: number;
 }
 
-// Get bookmarks without embeddings
-export async function getUnembeddedBookmarks(): Promise<BookmarkWithAuthor[]> {
-  const db = getDb();
-  const result = await db.execute(
-    `SELECT b.*, a.username, a.display_name
-     FROM bookmarks b
-     LEFT JOIN authors a ON b.author_id = a.id
-     WHERE b.embedding IS NULL
-     ORDER BY b.bookmarked_at DESC`
-  );
-
-  return result.rows.map((row) => ({
-    id: row.id as number,
-    tweet_id: row.tweet_id as string,
-    author_id: row.author_id as number,
-    content: row.content as string,
-    created_at: row.created_at as string,
-    bookmarked_at: row.bookmarked_at as string,
-    like_count: row.like_count as number,
-    retweet_count: row.retweet_count as number,
-    synced_at: row.synced_at as string,
-    username: row.username as string,
-    display_name: row.display_name as string | null,
-  }));
+// Documents of bookmarks without an embedding from `model`, or whose document
+// changed since they were embedded. Candidates whose document turns out the
+// same are marked as checked, so they aren't rebuilt until they change again.
+export async function getUnembeddedBookmarks(model: EmbeddingModel): Promise<BookmarkDocument[]> {
+  const documents = await getBookmarkDocuments(embeddingCandidates(model.name));
+  const unchanged = documents.filter((d) => d.embedding_model === model.name && d.embedding_hash === d.hash);
+  if (unchanged.length > 0) {
+    await getDb().batch(
+      unchanged.map((d) => ({
+        sql: "UPDATE bookmarks SET embedding_synced_at = ?, embedding_thread_synced_at = ? WHERE id = ?",
+        args: [d.synced_at, d.thread_synced_at, d.id],
+      })),
+      "write"
+    );
+  }
+  return documents
+    .filter((d) => !unchanged.includes(d))
+    .map(({ embedding_hash, embedding_model, ...document }) => document);
 }
 
-// Generate embeddings for all unembedded bookmarks
-export async function generateEmbeddings(
+// Embed documents a batch at a time, handing each batch's vectors to `write`
+// in order. With workers, up to one batch per worker is in flight while
+// earlier ones are written.
+export async function embedInBatches(
+  documents: BookmarkDocument[],
+  model: EmbeddingModel,
+  write: (batch: BookmarkDocument[], vectors: number[][]) => Promise<void>,
+  options: EmbeddingOptions = {},
   onProgress?: (progress: AnalysisProgress) => void
 ): Promise<number> {
-  const bookmarks = await getUnembeddedBookmarks();
+  const batchSize = options.batchSize ?? EMBED_BATCH_SIZE;
+  const workers = options.workers ?? getEmbeddingWorkers();
+  const pool = workers > 0 ? createEmbeddingPool(workers) : null;
 
-  if (bookmarks.length === 0) {
-    return 0;
+  const batches: (typeof documents)[] = [];
+  for (let i = 0; i < documents.length; i += batchSize) {
+    batches.push(documents.slice(i, i + batchSize));
   }
 
-  const db = getDb();
-  let processed = 0;
+  const inFlight = new Map<number, Promise<number[][]>>();
+  const start = (i: number) => {
+    const batch = batches[i];
+    if (!batch) return;
+    const input = batch.map((t) => t.document);
+    // Each batch is a single pass through the model, wherever it runs
+    const vectors = pool
+      ? pool.embed(input, model.id, batchSize)
+      : embedBatch(input, model, "document", batchSize);
+    vectors.catch(() => {}); // Surfaced when awaited below, in order
+    inFlight.set(i, vectors);
+  };
 
-  for (const bookmark of bookmarks) {
+  const started = Date.now();
+  let processed = 0;
+  const report = () => {
+    const seconds = (Date.now() - started) / 1000;
+    const perSecond = processed > 0 && seconds > 0 ? processed / seconds : undefined;
     onProgress?.({
       phase: "embedding",
       current: processed,
-      total: bookmarks.length,
+      total: documents.length,
+      perSecond,
+      etaSeconds: perSecond ? (documents.length - processed) / perSecond : undefined,
     });
+  };
 
-    const embedding = await embed(bookmark.content);
-
-    await db.execute({
-      sql: "UPDATE bookmarks SET embedding = ? WHERE id = ?",
-      args: [JSON.stringify(embedding), bookmark.id],
-    });
+  try {
+    report();
+    for (let i = 0; i < Math.max(1, workers); i++) start(i);
 
-    // Also index in FTS
-    await indexBookmarkFts(bookmark.id, bookmark.content);
+    for (const [i, batch] of batches.entries()) {
+      const vectors = await inFlight.get(i)!;
+      inFlight.delete(i);
+      start(i + Math.max(1, workers));
 
-    processed++;
+      await write(batch, vectors);
+      processed += batch.length;
+      report();
+    }
+  } finally {
+    pool?.close();
   }
 
-  onProgress?.({
-    phase: "embedding",
-    current: processed,
-    total: bookmarks.length,
-  });
-
   return processed;
 }
 
-// Get all bookmarks with embeddings
+// Generate embeddings with the active model for every bookmark without one
+export async function generateEmbeddings(
+  onProgress?: (progress: AnalysisProgress) => void,
+  options: EmbeddingOptions = {}
+): Promise<number> {
+  const model = await getActiveModel();
+  const documents = await getUnembeddedBookmarks(model);
+
+  if (documents.length === 0) {
+    return 0;
+  }
+
+  const db = getDb();
+  const added: { id: number; vector: number[]; hash: string }[] = [];
+
+  try {
+    return await embedInBatches(
+      documents,
+      model,
+      async (batch, vectors) => {
+        // One transaction per batch
+        await db.batch(
+          batch.map(({ id, hash, synced_at, thread_synced_at }, i) => ({
+            sql: `UPDATE bookmarks SET embedding = vector32(?), embedding_model = ?, embedding_dim = ?, embedding_hash = ?,
+                    embedding_synced_at = ?, embedding_thread_synced_at = ?
+                  WHERE id = ?`,
+            args: [JSON.stringify(vectors[i]), model.name, model.dim, hash, synced_at, thread_synced_at, id],
+          })),
+          "write"
+        );
+        batch.forEach(({ id, hash }, i) => added.push({ id, vector: vectors[i]!, hash }));
+      },
+      options,
+      onProgress
+    );
+  } finally {
+    // Keep whatever was stored even if a later batch failed
+    await addToAnnIndex(added, model);
+  }
+}
+
+// Get all bookmarks with embeddings from the active model
 async function getEmbeddedBookmarks(): Promise<
   { bookmark: BookmarkWithAuthor; embedding: number[] }[]
 > {
   const db = getDb();
-  const result = await db.execute(
-    `SELECT b.*, a.username, a.display_name, b.embedding
-     FROM bookmarks b
-     LEFT JOIN authors a ON b.author_id = a.id
-     WHERE b.embedding IS NOT NULL`
-  );
+  const model = await getActiveModel();
+  const result = await db.execute({
+    sql: `SELECT b.*, a.username, a.display_name, b.embedding
+          FROM bookmarks b
+          LEFT JOIN authors a ON b.author_id = a.id
+          WHERE b.embedding IS NOT NULL AND b.embedding_model = ?`,
+    args: [model.name],
+  });
 
   return result.rows
     .filter((row) => row.embedding)
@@ -106,13 +183,20 @@ async function getEmbeddedBookmarks(): Promise<
         content: row.content as string,
         created_at: row.created_at as string,
         bookmarked_at: row.bookmarked_at as string,
+        first_seen_at: row.first_seen_at as string | null,
+        feed_position: row.feed_position as number | null,
         like_count: row.like_count as number,
         retweet_count: row.retweet_count as number,
         synced_at: row.synced_at as string,
+        removed_at: row.removed_at as string | null,
+        conversation_id: row.conversation_id as string | null,
+        thread_synced_at: row.thread_synced_at as string | null,
+        source: row.source as string,
+        url: row.url as string | null,
         username: row.username as string,
         display_name: row.display_name as string | null,
       },
-      embedding: JSON.parse(row.embedding as string) as number[],
+      embedding: decodeVector(row.embedding)!,
     }));
 }
 
@@ -184,15 +268,16 @@ export async function runClustering(
 
 // Full analysis: embeddings + clustering + FTS
 export async function runFullAnalysis(
-  onProgress?: (progress: AnalysisProgress) => void
+  onProgress?: (progress: AnalysisProgress) => void,
+  embedding: EmbeddingOptions = {}
 ): Promise<AnalysisResult> {
   // Generate embeddings
-  const embeddingsGenerated = await generateEmbeddings(onProgress);
+  const embeddingsGenerated = await generateEmbeddings(onProgress, embedding);
 
   // Run clustering
   const { clustersCreated } = await runClustering(undefined, onProgress);
 
-  // Reindex FTS
+  // Triggers keep FTS current; rebuilding here repairs any drift
   onProgress?.({ phase: "indexing", current: 0, total: 1 });
   const ftsIndexed = await reindexAllFts();
   onProgress?.({ phase: "indexing", current: 1, total: 1 });
@@ -0,0 +1,195 @@
+import { getDb } from "../db/client";
+import { getEmbeddingState, updateEmbeddingState } from "../db/queries";
+import { EMBEDDING_MODELS, findEmbeddingModel, type EmbeddingModel } from "./embeddings";
+import { embedInBatches, type AnalysisProgress, type EmbeddingOptions } from "./index";
+import { getBookmarkDocuments, type BookmarkDocument } from "./document";
+
+// Switching embedding models. New vectors go into embedding_staging while
+// search keeps using the current ones; once every bookmark has one, a single
+// transaction swaps them in and makes the new model active. A started
+// re-embed survives restarts: running it again picks up where it stopped.
+
+export interface ReembedStatus {
+  model: string; // Active model
+  target: string | null; // Model being re-embedded with
+  startedAt: string | null;
+  staged: number;
+  total: number;
+}
+
+export interface ReembedResult {
+  model: string;
+  embedded: number;
+}
+
+export function requireEmbeddingModel(idOrName: string): EmbeddingModel {
+  const model = findEmbeddingModel(idOrName);
+  if (!model) {
+    throw new Error(
+      `Unknown embedding model: ${idOrName} (supported: ${EMBEDDING_MODELS.map((m) => m.id).join(", ")})`
+    );
+  }
+  return model;
+}
+
+export async function getReembedStatus(): Promise<ReembedStatus> {
+  const db = getDb();
+  const state = await getEmbeddingState();
+  const counts = await db.execute({
+    sql: `SELECT (SELECT COUNT(*) FROM bookmarks) AS total,
+            (SELECT COUNT(*) FROM embedding_staging WHERE model = ?) AS staged`,
+    args: [state.reembed_model],
+  });
+  const row = counts.rows[0]!;
+  return {
+    model: state.model,
+    target: state.reembed_model,
+    startedAt: state.reembed_started_at,
+    staged: state.reembed_model ? (row.staged as number) : 0,
+    total: row.total as number,
+  };
+}
+
+// Queue a switch to `modelId`; runReembed does the work. Choosing the model a
+// re-embed is already using keeps its progress.
+export async function startReembed(modelId: string): Promise<EmbeddingModel> {
+  const model = requireEmbeddingModel(modelId);
+  const state = await getEmbeddingState();
+  if (state.model === model.name && !state.reembed_model) {
+    throw new Error(`Embeddings already use ${model.name}`);
+  }
+
+  await getDb().execute({ sql: "DELETE FROM embedding_staging WHERE model != ?", args: [model.name] });
+  if (state.model === model.name) {
+    // Switching back to the active model just abandons the re-embed
+    await updateEmbeddingState({ reembed_model: null, reembed_started_at: null });
+  } else if (state.reembed_model !== model.name) {
+    await updateEmbeddingState({ reembed_model: model.name, reembed_started_at: new Date().toISOString() });
+  }
+  return model;
+}
+
+export async function cancelReembed(): Promise<boolean> {
+  const state = await getEmbeddingState();
+  if (!state.reembed_model) return false;
+  await getDb().execute("DELETE FROM embedding_staging");
+  await updateEmbeddingState({ reembed_model: null, reembed_started_at: null });
+  return true;
+}
+
+// Documents without a staged vector from `model`, or changed since staging.
+// As with embeddings, only bookmarks synced since staging are rebuilt.
+async function getUnstagedBookmarks(model: EmbeddingModel): Promise<BookmarkDocument[]> {
+  const db = getDb();
+  const documents = await getBookmarkDocuments({
+    sql: `NOT EXISTS (SELECT 1 FROM embedding_staging s
+      WHERE s.bookmark_id = b.id AND s.model = ? AND s.hash IS NOT NULL
+        AND s.synced_at IS b.synced_at AND s.thread_synced_at IS b.thread_synced_at)`,
+    args: [model.name],
+  });
+  const staged = await db.execute({
+    sql: "SELECT bookmark_id, hash FROM embedding_staging WHERE model = ?",
+    args: [model.name],
+  });
+  const hashes = new Map(staged.rows.map((row) => [row.bookmark_id as number, row.hash as string | null]));
+
+  const unchanged = documents.filter((d) => hashes.get(d.id) === d.hash);
+  if (unchanged.length > 0) {
+    await db.batch(
+      unchanged.map((d) => ({
+        sql: "UPDATE embedding_staging SET synced_at = ?, thread_synced_at = ? WHERE bookmark_id = ?",
+        args: [d.synced_at, d.thread_synced_at, d.id],
+      })),
+      "write"
+    );
+  }
+  return documents
+    .filter((d) => !unchanged.includes(d))
+    .map(({ embedding_hash, embedding_model, ...document }) => document);
+}
+
+// Swap the staged vectors in. The vector column is typed by dimension, so a
+// model with a different one gets a fresh column.
+async function switchModel(model: EmbeddingModel): Promise<void> {
+  const state = await getEmbeddingState();
+  const tx = await getDb().transaction("write");
+  try {
+    await tx.execute("DROP INDEX IF EXISTS idx_bookmarks_embedding");
+    if (state.dim !== model.dim) {
+      await tx.execute("ALTER TABLE bookmarks DROP COLUMN embedding");
+      await tx.execute(`ALTER TABLE bookmarks ADD COLUMN embedding F32_BLOB(${model.dim})`);
+    } else {
+      await tx.execute("UPDATE bookmarks SET embedding = NULL");
+    }
+    await tx.execute(
+      `UPDATE bookmarks SET embedding_model = NULL, embedding_dim = NULL, embedding_hash = NULL,
+         embedding_synced_at = NULL, embedding_thread_synced_at = NULL`
+    );
+    // Anything synced too late to be staged is embedded by the next analysis
+    await tx.execute({
+      sql: `UPDATE bookmarks
+            SET embedding = s.embedding, embedding_model = s.model, embedding_dim = ?, embedding_hash = s.hash,
+              embedding_synced_at = s.synced_at, embedding_thread_synced_at = s.thread_synced_at
+            FROM embedding_staging s
+            WHERE s.bookmark_id = bookmarks.id AND s.model = ?`,
+      args: [model.dim, model.name],
+    });
+    await tx.execute(
+      "CREATE INDEX idx_bookmarks_embedding ON bookmarks (libsql_vector_idx(embedding, 'metric=cosine'))"
+    );
+    await tx.execute("DELETE FROM embedding_staging");
+    await tx.execute({
+      sql: `UPDATE embedding_state SET model = ?, dim = ?, reembed_model = NULL, reembed_started_at = NULL
+            WHERE id = 1`,
+      args: [model.name, model.dim],
+    });
+    await tx.commit();
+  } catch (err) {
+    if (!tx.closed) await tx.rollback();
+    throw err;
+  } finally {
+    tx.close();
+  }
+}
+
+// Embed everything with the queued model, then switch to it. Returns null
+// when no re-embed is queued.
+export async function runReembed(
+  onProgress?: (progress: AnalysisProgress) => void,
+  options: EmbeddingOptions = {}
+): Promise<ReembedResult | null> {
+  const state = await getEmbeddingState();
+  if (!state.reembed_model) return null;
+  const model = requireEmbeddingModel(state.reembed_model);
+  const db = getDb();
+
+  let embedded = 0;
+  // Bookmarks synced meanwhile show up on the next pass
+  let pending = await getUnstagedBookmarks(model);
+  while (pending.length > 0) {
+    embedded += await embedInBatches(
+      pending,
+      model,
+      (batch, vectors) =>
+        db
+          .batch(
+            batch.map(({ id, hash, synced_at, thread_synced_at }, i) => ({
+              sql: `INSERT INTO embedding_staging (bookmark_id, model, embedding, hash, synced_at, thread_synced_at)
+                    VALUES (?, ?, vector32(?), ?, ?, ?)
+                    ON CONFLICT(bookmark_id) DO UPDATE SET
+                      model = excluded.model, embedding = excluded.embedding, hash = excluded.hash,
+                      synced_at = excluded.synced_at, thread_synced_at = excluded.thread_synced_at`,
+              args: [id, model.name, JSON.stringify(vectors[i]), hash, synced_at, thread_synced_at],
+            })),
+            "write"
+          )
+          .then(() => {}),
+      options,
+      onProgress
+    );
+    pending = await getUnstagedBookmarks(model);
+  }
+
+  await switchModel(model);
+  return { model: model.name, embedded };
+}
@@ -1,4 +1,6 @@
-import { embed, cosineSimilarity } from "./embeddings";
+import type { Row } from "@libsql/client";
+import { embed, cosineSimilarity, decodeVector, getActiveModel, type EmbeddingModel } from "./embeddings";
+import { searchAnnIndex } from "./annIndex";
 import { getDb } from "../db/client";
 import type { BookmarkWithAuthor } from "../db/queries";
 
@@ -7,57 +9,162 @@ export interface SearchResult {
   score: number;
 }
 
-// Vector similarity search
-export async function vectorSearch(
-  query: string,
-  limit = 20
-): Promise<SearchResult[]> {
+// Search result rows are `b.*` plus the author's names; leave the embedding out
+function rowToBookmark(row: Row): BookmarkWithAuthor {
+  return {
+    id: row.id as number,
+    tweet_id: row.tweet_id as string,
+    author_id: row.author_id as number,
+    content: row.content as string,
+    created_at: row.created_at as string,
+    bookmarked_at: row.bookmarked_at as string,
+    first_seen_at: row.first_seen_at as string | null,
+    feed_position: row.feed_position as number | null,
+    like_count: row.like_count as number,
+    retweet_count: row.retweet_count as number,
+    synced_at: row.synced_at as string,
+    removed_at: row.removed_at as string | null,
+    conversation_id: row.conversation_id as string | null,
+    thread_synced_at: row.thread_synced_at as string | null,
+    source: row.source as string,
+    url: row.url as string | null,
+    username: row.username as string,
+    display_name: row.display_name as string | null,
+  };
+}
+
+// How nearest neighbours are found: libSQL's vector index, the in-process
+// HNSW index (local database files only), or an exact scan in JS
+export type VectorSearchMethod = "native" | "hnsw" | "scan";
+
+export const VECTOR_SEARCH_METHODS: VectorSearchMethod[] = ["native", "hnsw", "scan"];
+
+// Set once the vector index turns out to be unusable (e.g. a database
+// without libSQL's vector support), so later queries skip straight past it
+let nativeVectorSearch = true;
+
+export function setNativeVectorSearch(enabled: boolean): void {
+  nativeVectorSearch = enabled;
+}
+
+// How many neighbours to ask the vector index for per result wanted. The
+// index holds every stored vector, and those from other models (a re-embed
+// in progress) are only filtered out after it picks the nearest.
+const INDEX_OVERFETCH = 4;
+
+// Nearest neighbours from the libSQL vector index
+async function indexedNearest(vector: number[], limit: number, model: EmbeddingModel): Promise<SearchResult[]> {
   const db = getDb();
+  const query = JSON.stringify(vector);
+  const fetched = limit * INDEX_OVERFETCH;
+  const result = await db.execute({
+    sql: `SELECT b.*, a.username, a.display_name,
+            vector_distance_cos(b.embedding, vector32(?)) AS distance
+          FROM vector_top_k('idx_bookmarks_embedding', vector32(?), ?) AS v
+          JOIN bookmarks b ON b.rowid = v.id
+          LEFT JOIN authors a ON b.author_id = a.id
+          ORDER BY distance`,
+    args: [query, query, fetched],
+  });
+  const rows = result.rows.filter((row) => row.embedding_model === model.name);
+  // Too few left, and more beyond what the index returned: scan instead
+  if (rows.length < limit && result.rows.length === fetched) {
+    return scannedNearest(vector, limit, model);
+  }
+  return rows.slice(0, limit).map((row) => ({
+    bookmark: rowToBookmark(row),
+    score: 1 - (row.distance as number),
+  }));
+}
 
-  // Get query embedding
-  const queryEmbedding = await embed(query);
+// Nearest neighbours from the HNSW index file, or null without one
+async function annNearest(
+  vector: number[],
+  limit: number,
+  model: EmbeddingModel
+): Promise<SearchResult[] | null> {
+  const matches = await searchAnnIndex(vector, limit, model);
+  if (!matches) return null;
+  if (matches.length === 0) return [];
 
-  // Get all bookmarks with embeddings
-  const result = await db.execute(
-    `SELECT b.*, a.username, a.display_name, b.embedding
-     FROM bookmarks b
-     LEFT JOIN authors a ON b.author_id = a.id
-     WHERE b.embedding IS NOT NULL`
-  );
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT b.*, a.username, a.display_name
+          FROM bookmarks b
+          LEFT JOIN authors a ON b.author_id = a.id
+          WHERE b.id IN (${matches.map(() => "?").join(", ")})`,
+    args: matches.map((m) => m.id),
+  });
+  const rows = new Map(result.rows.map((row) => [row.id as number, row]));
+  return matches.flatMap((m) => {
+    const row = rows.get(m.id);
+    return row ? [{ bookmark: rowToBookmark(row), score: m.score }] : [];
+  });
+}
 
-  // Calculate similarities
-  const scored: SearchResult[] = [];
+// Brute-force scan in JS; slower, but needs nothing from the database
+async function scannedNearest(vector: number[], limit: number, model: EmbeddingModel): Promise<SearchResult[]> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT b.*, a.username, a.display_name
+          FROM bookmarks b
+          LEFT JOIN authors a ON b.author_id = a.id
+          WHERE b.embedding IS NOT NULL AND b.embedding_model = ?`,
+    args: [model.name],
+  });
 
+  const scored: SearchResult[] = [];
   for (const row of result.rows) {
-    if (!row.embedding) continue;
-
-    const embedding = JSON.parse(row.embedding as string) as number[];
-    const score = cosineSimilarity(queryEmbedding, embedding);
-
-    scored.push({
-      bookmark: {
-        id: row.id as number,
-        tweet_id: row.tweet_id as string,
-        author_id: row.author_id as number,
-        content: row.content as string,
-        created_at: row.created_at as string,
-        bookmarked_at: row.bookmarked_at as string,
-        like_count: row.like_count as number,
-        retweet_count: row.retweet_count as number,
-        synced_at: row.synced_at as string,
-        username: row.username as string,
-        display_name: row.display_name as string | null,
-      },
-      score,
-    });
+    const embedding = decodeVector(row.embedding);
+    if (!embedding || embedding.length !== vector.length) continue;
+    scored.push({ bookmark: rowToBookmark(row), score: cosineSimilarity(vector, embedding) });
   }
 
-  // Sort by score descending
   scored.sort((a, b) => b.score - a.score);
-
   return scored.slice(0, limit);
 }
 
+// Bookmarks closest to an embedding from the active model, most similar
+// first. Without a method, use the best one available
+export async function nearestBookmarks(
+  vector: number[],
+  limit = 20,
+  method?: VectorSearchMethod
+): Promise<SearchResult[]> {
+  const model = await getActiveModel();
+  if (vector.length !== model.dim) {
+    throw new Error(`Can't compare a ${vector.length}-dimension vector with ${model.name} embeddings (${model.dim})`);
+  }
+
+  if (method === "native") return indexedNearest(vector, limit, model);
+  if (method === "scan") return scannedNearest(vector, limit, model);
+  if (method === "hnsw") {
+    const results = await annNearest(vector, limit, model);
+    if (!results) throw new Error("The HNSW index needs a local database file");
+    return results;
+  }
+
+  if (nativeVectorSearch) {
+    try {
+      return await indexedNearest(vector, limit, model);
+    } catch (err) {
+      console.error(
+        `Vector index unavailable, falling back: ${err instanceof Error ? err.message : String(err)}`
+      );
+      nativeVectorSearch = false;
+    }
+  }
+  return (await annNearest(vector, limit, model)) ?? scannedNearest(vector, limit, model);
+}
+
+// Vector similarity search
+export async function vectorSearch(
+  query: string,
+  limit = 20
+): Promise<SearchResult[]> {
+  return nearestBookmarks(await embed(query, await getActiveModel(), "query"), limit);
+}
+
 // Full-text search using SQLite FTS5
 export async function ftsSearch(
   query: string,
@@ -65,8 +172,14 @@ export async function ftsSearch(
 ): Promise<SearchResult[]> {
   const db = getDb();
 
-  // Escape special FTS characters
-  const escapedQuery = query.replace(/['"*()]/g, " ").trim();
+  // Escape special FTS characters; words with punctuation (URLs, hyphenated
+  // names) become quoted phrases so FTS5 doesn't read them as syntax
+  const escapedQuery = query
+    .replace(/['"*()]/g, " ")
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => (/^[\p{L}\p{N}_]+$/u.test(word) ? word : `"${word}"`))
+    .join(" ");
 
   if (!escapedQuery) {
     return [];
@@ -84,19 +197,7 @@ export async function ftsSearch(
   });
 
   return result.rows.map((row) => ({
-    bookmark: {
-      id: row.id as number,
-      tweet_id: row.tweet_id as string,
-      author_id: row.author_id as number,
-      content: row.content as string,
-      created_at: row.created_at as string,
-      bookmarked_at: row.bookmarked_at as string,
-      like_count: row.like_count as number,
-      retweet_count: row.retweet_count as number,
-      synced_at: row.synced_at as string,
-      username: row.username as string,
-      display_name: row.display_name as string | null,
-    },
+    bookmark: rowToBookmark(row),
     score: Math.abs(row.score as number), // bm25 returns negative scores
   }));
 }
@@ -142,36 +243,35 @@ export async function hybridSearch(
   return merged.slice(0, limit);
 }
 
-// Index a bookmark in FTS
-export async function indexBookmarkFts(id: number, content: string): Promise<void> {
-  const db = getDb();
-  await db.execute({
-    sql: `INSERT OR REPLACE INTO bookmarks_fts(rowid, content) VALUES (?, ?)`,
-    args: [id, content],
-  });
+export type SearchMode = "hybrid" | "keyword" | "semantic";
+
+export function runSearch(query: string, mode: SearchMode, limit = 20): Promise<SearchResult[]> {
+  if (mode === "keyword") return ftsSearch(query, limit);
+  if (mode === "semantic") return vectorSearch(query, limit);
+  return hybridSearch(query, limit);
 }
 
-// Re-index all bookmarks in FTS
+// The FTS index is kept current by triggers (see migration 4). These are for
+// repairing it: after restoring a backup, or if the check below fails.
+
+// Rebuild the FTS index from the bookmark_search view
 export async function reindexAllFts(): Promise<number> {
   const db = getDb();
+  await db.execute("INSERT INTO bookmarks_fts(bookmarks_fts) VALUES ('rebuild')");
+  const result = await db.execute("SELECT COUNT(*) AS count FROM bookmarks");
+  return (result.rows[0]?.count as number) ?? 0;
+}
 
-  // Clear existing FTS index
-  await db.execute("DELETE FROM bookmarks_fts");
-
-  // Get all bookmarks
-  const result = await db.execute("SELECT id, content FROM bookmarks");
-
-  // Index each one
-  for (const row of result.rows) {
-    const id = row.id as number;
-    const content = row.content as string;
-    if (id && content) {
-      await db.execute({
-        sql: "INSERT INTO bookmarks_fts(rowid, content) VALUES (?, ?)",
-        args: [id, content],
-      });
-    }
+// Whether the FTS index matches the bookmarks it was built from
+export async function checkFtsIntegrity(): Promise<boolean> {
+  const db = getDb();
+  try {
+    // rank = 1 also compares the index against the content view
+    await db.execute("INSERT INTO bookmarks_fts(bookmarks_fts, rank) VALUES ('integrity-check', 1)");
+    return true;
+  } catch (err) {
+    const message = err instanceof Error ? err.message : String(err);
+    if (/corrupt/i.test(message)) return false;
+    throw err;
   }
-
-  return result.rows.length;
 }
@@ -0,0 +1,738 @@
+import { parseArgs } from "util";
+import { closeDb, getDb, initDb } from "./db/client";
+import { getMigrationStatus, migrate } from "./db/migrations";
+import { getSavedSearches, getStats, getTopicSummaries, saveSearch } from "./db/queries";
+import { generateEmbeddings, runClustering, runFullAnalysis, type EmbeddingOptions } from "./analysis";
+import { checkFtsIntegrity, reindexAllFts, runSearch, type SearchMode } from "./analysis/search";
+import { rebuildAnnIndex } from "./analysis/annIndex";
+import { benchmarkVectorSearch } from "./analysis/benchmark";
+import { EMBEDDING_MODELS } from "./analysis/embeddings";
+import { cancelReembed, getReembedStatus, runReembed, startReembed } from "./analysis/reembed";
+import { syncBookmarks, type SyncMode } from "./twitter/sync";
+import { RECENT_SEARCH_DAYS } from "./twitter/client";
+import { createSource, SOURCE_KINDS, type SourceKind } from "./sources";
+import {
+  bookmarkUrl,
+  countDumpRows,
+  DIRECTORY_EXPORT_FORMATS,
+  dumpDatabase,
+  exportBookmarks,
+  exportMarkdownVault,
+  exportSite,
+  EXPORT_FORMATS,
+  FEED_FORMATS,
+  formatDumpJson,
+  formatFeed,
+  formatDumpNdjson,
+  loadSavedSearchFeed,
+  loadTopicFeed,
+  parseDump,
+  restoreDump,
+  writeDumpCsv,
+  type DirectoryExportFormat,
+  type ExportFormat,
+  type FeedFormat,
+} from "./export";
+import { runDaemon } from "./daemon";
+import { startServer } from "./server";
+import { runMcpServer } from "./mcp";
+
+// Non-interactive subcommands, for scripts and cron. Results go to stdout
+// (as JSON with --json); progress and errors go to stderr.
+//
+// Exit codes: 0 success, 1 the command failed, 2 invalid usage.
+
+export interface CliIO {
+  stdout(text: string): void;
+  stderr(text: string): void;
+}
+
+interface Command {
+  usage: string;
+  summary: string;
+  // Don't bring the schema up to date before running
+  skipMigrations?: boolean;
+  run(args: string[], io: CliIO): Promise<void>;
+}
+
+class UsageError extends Error {}
+
+const SEARCH_MODES: SearchMode[] = ["keyword", "semantic", "hybrid"];
+
+const DUMP_FORMATS = ["json", "ndjson", "csv"] as const;
+type DumpFormat = (typeof DUMP_FORMATS)[number];
+
+const defaultIO: CliIO = {
+  stdout: (text) => process.stdout.write(`${text}\n`),
+  stderr: (text) => process.stderr.write(`${text}\n`),
+};
+
+function writeJson(io: CliIO, value: unknown): void {
+  io.stdout(JSON.stringify(value, null, 2));
+}
+
+function parsePositiveInt(value: string | undefined, name: string): number | undefined {
+  if (value === undefined) return undefined;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed <= 0) {
+    throw new UsageError(`--${name} must be a positive integer`);
+  }
+  return parsed;
+}
+
+// Resolve once the process is asked to stop (Ctrl-C or a service manager)
+function untilStopped(): Promise<void> {
+  return new Promise((resolve) => {
+    const stop = () => {
+      process.off("SIGINT", stop);
+      process.off("SIGTERM", stop);
+      resolve();
+    };
+    process.on("SIGINT", stop);
+    process.on("SIGTERM", stop);
+  });
+}
+
+function oneOf<T extends string>(value: string, allowed: readonly T[], name: string): T {
+  if (!allowed.includes(value as T)) {
+    throw new UsageError(`--${name} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+const COMMANDS: Record<string, Command> = {
+  sync: {
+    usage: "sync [--full | --resume] [--threads] [--source twitter|archive|file] [--path <path>] [--json]",
+    summary: "Fetch new bookmarks (or import an archive or file)",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: {
+          full: { type: "boolean", default: false },
+          resume: { type: "boolean", default: false },
+          threads: { type: "boolean", default: false },
+          source: { type: "string", default: "twitter" },
+          path: { type: "string", default: "" },
+          json: { type: "boolean", default: false },
+        },
+      });
+      if (values.full && values.resume) {
+        throw new UsageError("--full and --resume can't be combined");
+      }
+      const kind = oneOf(values.source, SOURCE_KINDS.map((s) => s.kind), "source") as SourceKind;
+      if (SOURCE_KINDS.find((s) => s.kind === kind)?.needsPath && !values.path) {
+        throw new UsageError(`--path is required for --source ${kind}`);
+      }
+      const mode: SyncMode = values.full ? "full" : values.resume ? "resume" : "incremental";
+
+      const result = await syncBookmarks(
+        (progress) => {
+          if (progress.phase === "waiting" && progress.resumeAt) {
+            io.stderr(`Rate limited, waiting until ${progress.resumeAt}`);
+          }
+        },
+        { mode, includeThreads: values.threads, source: createSource(kind, values.path) }
+      );
+
+      if (values.json) {
+        writeJson(io, result);
+      } else {
+        io.stdout(
+          `Synced from ${result.source} (${result.mode}): ${result.newBookmarks} new, ` +
+            `${result.updatedBookmarks} updated, ${result.removedBookmarks} removed, ` +
+            `${result.totalBookmarks} total`
+        );
+        if (result.threadsSkipped > 0) {
+          io.stdout(
+            `${result.threadsSkipped} threads older than ${RECENT_SEARCH_DAYS} days were skipped: ` +
+              "rebuilding them needs full-archive search (TWITTER_API_TIER=pro)"
+          );
+        }
+      }
+    },
+  },
+
+  analyze: {
+    usage: "analyze [--embeddings | --cluster] [--clusters <k>] [--batch-size <n>] [--workers <n>] [--json]",
+    summary: "Generate embeddings, cluster into topics and rebuild search",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: {
+          embeddings: { type: "boolean", default: false },
+          cluster: { type: "boolean", default: false },
+          clusters: { type: "string" },
+          "batch-size": { type: "string" },
+          workers: { type: "string" },
+          json: { type: "boolean", default: false },
+        },
+      });
+      if (values.embeddings && values.cluster) {
+        throw new UsageError("--embeddings and --cluster can't be combined");
+      }
+      const k = parsePositiveInt(values.clusters, "clusters");
+      const embedding: EmbeddingOptions = {
+        batchSize: parsePositiveInt(values["batch-size"], "batch-size"),
+        workers: parsePositiveInt(values.workers, "workers"),
+      };
+
+      let result: Record<string, number>;
+      if (values.embeddings) {
+        result = { embeddingsGenerated: await generateEmbeddings(undefined, embedding) };
+      } else if (values.cluster) {
+        result = { clustersCreated: (await runClustering(k)).clustersCreated };
+      } else {
+        result = { ...(await runFullAnalysis(undefined, embedding)) };
+      }
+
+      if (values.json) {
+        writeJson(io, result);
+      } else {
+        io.stdout(Object.entries(result).map(([key, value]) => `${key}: ${value}`).join("\n"));
+      }
+    },
+  },
+
+  search: {
+    usage: "search <query> [--mode keyword|semantic|hybrid] [--limit <n>] [--save <name>] [--json]",
+    summary: "Search bookmarks (--save keeps the search for feeds)",
+    async run(args, io) {
+      const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+          mode: { type: "string", default: "hybrid" },
+          limit: { type: "string" },
+          save: { type: "string" },
+          json: { type: "boolean", default: false },
+        },
+      });
+      const query = positionals.join(" ").trim();
+      if (!query) throw new UsageError("search needs a query");
+      const mode = oneOf<SearchMode>(values.mode, SEARCH_MODES, "mode");
+      const limit = parsePositiveInt(values.limit, "limit") ?? 20;
+
+      if (values.save) {
+        const id = await saveSearch({ name: values.save, query, mode });
+        io.stderr(`Saved search "${values.save}" (id ${id})`);
+      }
+      const results = await runSearch(query, mode, limit);
+
+      if (values.json) {
+        writeJson(
+          io,
+          results.map(({ bookmark, score }) => ({
+            score,
+            id: bookmark.tweet_id,
+            url: bookmarkUrl(bookmark),
+            username: bookmark.username,
+            text: bookmark.content,
+            created_at: bookmark.created_at,
+          }))
+        );
+        return;
+      }
+      if (results.length === 0) {
+        io.stdout("No results");
+        return;
+      }
+      for (const { bookmark, score } of results) {
+        const text = bookmark.content.replace(/\s+/g, " ");
+        io.stdout(`${score.toFixed(3)}  @${bookmark.username}  ${text.slice(0, 100)}`);
+        io.stdout(`       ${bookmarkUrl(bookmark)}`);
+      }
+    },
+  },
+
+  topics: {
+    usage: "topics [--json]",
+    summary: "List topics and how many bookmarks each has",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: { json: { type: "boolean", default: false } },
+      });
+      const topics = await getTopicSummaries();
+
+      if (values.json) {
+        writeJson(io, topics);
+      } else if (topics.length === 0) {
+        io.stdout("No topics yet. Run `analyze` first.");
+      } else {
+        for (const topic of topics) {
+          io.stdout(`${String(topic.bookmark_count).padStart(5)}  ${topic.name}`);
+        }
+      }
+    },
+  },
+
+  searches: {
+    usage: "searches [--json]",
+    summary: "List saved searches",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: { json: { type: "boolean", default: false } },
+      });
+      const searches = await getSavedSearches();
+
+      if (values.json) {
+        writeJson(io, searches);
+      } else if (searches.length === 0) {
+        io.stdout("No saved searches. Use `search <query> --save <name>`.");
+      } else {
+        for (const search of searches) {
+          io.stdout(`${String(search.id).padStart(5)}  ${search.name}  (${search.mode}: ${search.query})`);
+        }
+      }
+    },
+  },
+
+  feed: {
+    usage: `feed (--topic <id> | --search <id>) [--format ${FEED_FORMATS.join("|")}] [--output <file>]`,
+    summary: "Write a topic or saved search as a feed or browser bookmark file",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: {
+          topic: { type: "string" },
+          search: { type: "string" },
+          format: { type: "string", default: "atom" },
+          output: { type: "string" },
+        },
+      });
+      const topicId = parsePositiveInt(values.topic, "topic");
+      const searchId = parsePositiveInt(values.search, "search");
+      if ((topicId === undefined) === (searchId === undefined)) {
+        throw new UsageError("Pass exactly one of --topic and --search");
+      }
+      const format = oneOf<FeedFormat>(values.format, FEED_FORMATS, "format");
+
+      const feed = topicId !== undefined ? await loadTopicFeed(topicId) : await loadSavedSearchFeed(searchId!);
+      if (!feed) {
+        throw new Error(topicId !== undefined ? `No topic with id ${topicId}` : `No saved search with id ${searchId}`);
+      }
+      const output = formatFeed(feed, format);
+
+      if (values.output) {
+        await Bun.write(values.output, output);
+        io.stderr(`Wrote ${feed.bookmarks.length} bookmarks to ${values.output}`);
+      } else {
+        io.stdout(output.replace(/\n$/, ""));
+      }
+    },
+  },
+
+  export: {
+    usage: `export [--format ${[...EXPORT_FORMATS, ...DIRECTORY_EXPORT_FORMATS].join("|")}] [--output <path>]`,
+    summary: "Export all bookmarks (markdown and site write a directory to --output)",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: {
+          format: { type: "string", default: "json" },
+          output: { type: "string" },
+        },
+      });
+      const format = oneOf<ExportFormat | DirectoryExportFormat>(
+        values.format,
+        [...EXPORT_FORMATS, ...DIRECTORY_EXPORT_FORMATS],
+        "format"
+      );
+
+      if ((DIRECTORY_EXPORT_FORMATS as string[]).includes(format) && !values.output) {
+        throw new UsageError(`--output <dir> is required for --format ${format}`);
+      }
+      if (format === "site") {
+        const result = await exportSite(values.output!);
+        io.stderr(
+          `Wrote a site with ${result.bookmarks} bookmarks, ${result.topics} topics and ` +
+            `${result.authors} authors to ${values.output}`
+        );
+        return;
+      }
+      if (format === "markdown") {
+        const result = await exportMarkdownVault(values.output!);
+        io.stderr(
+          `Wrote ${result.written} notes to ${values.output} (${result.unchanged} unchanged, ${result.topics} topics)`
+        );
+        return;
+      }
+
+      const { count, output } = await exportBookmarks(format);
+
+      if (values.output) {
+        await Bun.write(values.output, output);
+        io.stderr(`Exported ${count} bookmarks to ${values.output}`);
+      } else {
+        io.stdout(output.replace(/\n$/, ""));
+      }
+    },
+  },
+
+  dump: {
+    usage: "dump [--format json|ndjson|csv] [--output <path>]",
+    summary: "Dump bookmarks, authors, topics and items (csv writes a directory)",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: {
+          format: { type: "string", default: "json" },
+          output: { type: "string" },
+        },
+      });
+      const format = oneOf<DumpFormat>(values.format, DUMP_FORMATS, "format");
+      if (format === "csv" && !values.output) {
+        throw new UsageError("--output <dir> is required for --format csv");
+      }
+
+      const dump = await dumpDatabase();
+      if (format === "csv") {
+        const files = await writeDumpCsv(values.output!, dump);
+        io.stderr(`Wrote ${files.length} CSV files to ${values.output}`);
+        return;
+      }
+
+      const output = format === "ndjson" ? formatDumpNdjson(dump) : formatDumpJson(dump);
+      if (values.output) {
+        await Bun.write(values.output, output);
+        io.stderr(`Dumped ${countDumpRows(dump)} rows to ${values.output}`);
+      } else {
+        io.stdout(output.replace(/\n$/, ""));
+      }
+    },
+  },
+
+  restore: {
+    usage: "restore <file> [--json]",
+    summary: "Restore a JSON or NDJSON dump into this database",
+    async run(args, io) {
+      const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: { json: { type: "boolean", default: false } },
+      });
+      const [path] = positionals;
+      if (!path) throw new UsageError("restore needs a dump file");
+      const file = Bun.file(path);
+      if (!(await file.exists())) throw new Error(`File not found: ${path}`);
+
+      const result = await restoreDump(parseDump(await file.text()));
+      if (values.json) {
+        writeJson(io, result);
+      } else {
+        io.stdout(Object.entries(result).map(([table, count]) => `${table}: ${count}`).join("\n"));
+      }
+    },
+  },
+
+  stats: {
+    usage: "stats [--json]",
+    summary: "Show bookmark, topic and task counts",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: { json: { type: "boolean", default: false } },
+      });
+      const stats = await getStats();
+
+      if (values.json) {
+        writeJson(io, stats);
+      } else {
+        io.stdout(
+          [
+            `Bookmarks:     ${stats.totalBookmarks}`,
+            `Topics:        ${stats.totalTopics}`,
+            `Pending tasks: ${stats.pendingTasks}`,
+            `Ideas:         ${stats.totalIdeas}`,
+          ].join("\n")
+        );
+      }
+    },
+  },
+
+  daemon: {
+    usage: "daemon [--interval <minutes>] [--once] [--threads] [--skip-embeddings]",
+    summary: "Sync and embed on an interval, logging JSON lines",
+    async run(args) {
+      const { values } = parseArgs({
+        args,
+        options: {
+          interval: { type: "string" },
+          once: { type: "boolean", default: false },
+          threads: { type: "boolean", default: false },
+          "skip-embeddings": { type: "boolean", default: false },
+        },
+      });
+
+      const controller = new AbortController();
+      untilStopped().then(() => controller.abort());
+      await runDaemon({
+        intervalMinutes: parsePositiveInt(values.interval, "interval"),
+        once: values.once,
+        includeThreads: values.threads,
+        embed: !values["skip-embeddings"],
+        signal: controller.signal,
+      });
+    },
+  },
+
+  serve: {
+    usage: "serve [--port <n>] [--host <address>] [--cors-origin <origin>]",
+    summary: "Serve a local JSON API over the index",
+    async run(args, io) {
+      const { values } = parseArgs({
+        args,
+        options: {
+          port: { type: "string" },
+          host: { type: "string" },
+          "cors-origin": { type: "string" },
+        },
+      });
+
+      const server = startServer({
+        port: parsePositiveInt(values.port ?? process.env.BOOKMARKS_API_PORT, "port"),
+        hostname: values.host,
+        token: process.env.BOOKMARKS_API_TOKEN,
+        corsOrigin: values["cors-origin"],
+      });
+      io.stderr(`Serving the bookmark API on ${server.url}`);
+      await untilStopped();
+      server.stop();
+    },
+  },
+
+  migrate: {
+    usage: "migrate [status] [--json]",
+    summary: "Apply pending schema migrations, or list them with status",
+    skipMigrations: true,
+    async run(args, io) {
+      const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: { json: { type: "boolean", default: false } },
+      });
+      const [action = "up"] = positionals;
+      if (action !== "up" && action !== "status") {
+        throw new UsageError(`Unknown migrate action: ${action}`);
+      }
+
+      if (action === "up") {
+        const applied = await migrate(getDb());
+        if (values.json) {
+          writeJson(io, { applied });
+        } else {
+          io.stdout(applied.length > 0 ? `Applied migrations: ${applied.join(", ")}` : "Schema is up to date");
+        }
+        return;
+      }
+
+      const status = await getMigrationStatus(getDb());
+      if (values.json) {
+        writeJson(io, status);
+        return;
+      }
+      for (const m of status) {
+        io.stdout(`${String(m.version).padStart(4)}  ${(m.applied_at ?? "pending").padEnd(24)}  ${m.name}`);
+      }
+      const pending = status.filter((m) => !m.applied_at).length;
+      io.stdout(pending > 0 ? `\n${pending} pending; run \`migrate\` to apply` : "\nSchema is up to date");
+    },
+  },
+
+  fts: {
+    usage: "fts check|rebuild",
+    summary: "Check the full-text index against the bookmarks, or rebuild it",
+    async run(args, io) {
+      const { positionals } = parseArgs({ args, allowPositionals: true, options: {} });
+      const [action] = positionals;
+
+      if (action === "check") {
+        if (!(await checkFtsIntegrity())) {
+          throw new Error("Full-text index is out of sync; run `fts rebuild`");
+        }
+        io.stdout("Full-text index is consistent");
+      } else if (action === "rebuild") {
+        io.stdout(`Rebuilt the full-text index for ${await reindexAllFts()} bookmarks`);
+      } else {
+        throw new UsageError("fts needs an action: check or rebuild");
+      }
+    },
+  },
+
+  ann: {
+    usage: "ann rebuild|bench [--queries <n>] [--limit <n>] [--json]",
+    summary: "Rebuild the HNSW index file, or benchmark it against exact search",
+    async run(args, io) {
+      const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+          queries: { type: "string" },
+          limit: { type: "string" },
+          json: { type: "boolean", default: false },
+        },
+      });
+      const [action] = positionals;
+
+      if (action === "rebuild") {
+        io.stdout(`Indexed ${await rebuildAnnIndex()} embeddings`);
+        return;
+      }
+      if (action !== "bench") {
+        throw new UsageError("ann needs an action: rebuild or bench");
+      }
+
+      const result = await benchmarkVectorSearch({
+        queries: parsePositiveInt(values.queries, "queries"),
+        limit: parsePositiveInt(values.limit, "limit"),
+      });
+      if (values.json) {
+        writeJson(io, result);
+        return;
+      }
+      io.stdout(`${result.queries} queries for the top ${result.limit} among ${result.vectors} embeddings`);
+      for (const m of result.methods) {
+        io.stdout(
+          m.error
+            ? `  ${m.method.padEnd(6)}  unavailable: ${m.error}`
+            : `  ${m.method.padEnd(6)}  recall ${m.recall.toFixed(3)}  mean ${m.meanMs.toFixed(1)}ms  ` +
+                `p95 ${m.p95Ms.toFixed(1)}ms  setup ${m.setupMs.toFixed(0)}ms`
+        );
+      }
+    },
+  },
+
+  models: {
+    usage: "models [--json]",
+    summary: "List the supported embedding models",
+    async run(args, io) {
+      const { values } = parseArgs({ args, options: { json: { type: "boolean", default: false } } });
+      const status = await getReembedStatus();
+      const models = EMBEDDING_MODELS.map((m) => ({
+        id: m.id,
+        name: m.name,
+        dim: m.dim,
+        description: m.description,
+        active: m.name === status.model,
+        pending: m.name === status.target,
+      }));
+
+      if (values.json) {
+        writeJson(io, models);
+        return;
+      }
+      const width = Math.max(...models.map((m) => m.id.length));
+      for (const m of models) {
+        const mark = m.active ? "*" : m.pending ? "~" : " ";
+        io.stdout(`${mark} ${m.id.padEnd(width)}  ${String(m.dim).padStart(3)}d  ${m.description}`);
+      }
+      if (status.target) {
+        io.stdout(`\nRe-embedding with ${status.target}: ${status.staged}/${status.total} done`);
+      }
+    },
+  },
+
+  reembed: {
+    usage: "reembed <model> [--queue] [--batch-size <n>] [--workers <n>] [--json] | reembed --cancel",
+    summary: "Re-embed every bookmark with another model, then switch to it",
+    async run(args, io) {
+      const { values, positionals } = parseArgs({
+        args,
+        allowPositionals: true,
+        options: {
+          queue: { type: "boolean", default: false },
+          cancel: { type: "boolean", default: false },
+          "batch-size": { type: "string" },
+          workers: { type: "string" },
+          json: { type: "boolean", default: false },
+        },
+      });
+
+      if (values.cancel) {
+        io.stdout((await cancelReembed()) ? "Cancelled the re-embed" : "No re-embed in progress");
+        return;
+      }
+      const [modelId] = positionals;
+      if (!modelId) throw new UsageError("reembed needs a model (see `models`)");
+      const embedding: EmbeddingOptions = {
+        batchSize: parsePositiveInt(values["batch-size"], "batch-size"),
+        workers: parsePositiveInt(values.workers, "workers"),
+      };
+
+      const model = await startReembed(modelId);
+      if (values.queue) {
+        io.stdout(`Queued a re-embed with ${model.name}; the daemon will run it`);
+        return;
+      }
+      const result = await runReembed((p) => io.stderr(`Re-embedding ${p.current}/${p.total}`), embedding);
+      if (values.json) {
+        writeJson(io, result ?? { model: (await getReembedStatus()).model, embedded: 0 });
+      } else if (result) {
+        io.stdout(`Re-embedded ${result.embedded} bookmarks; now using ${result.model}`);
+      } else {
+        io.stdout(`Already using ${model.name}`);
+      }
+    },
+  },
+
+  mcp: {
+    usage: "mcp",
+    summary: "Run a Model Context Protocol server on stdio",
+    async run(args) {
+      parseArgs({ args, options: {} });
+      await runMcpServer();
+    },
+  },
+};
+
+export function usage(): string {
+  const width = Math.max(...Object.values(COMMANDS).map((c) => c.usage.split(" ")[0]!.length));
+  return [
+    "Usage: bun run start [command] [options]",
+    "",
+    "Without a command, launches the interactive TUI.",
+    "",
+    "Commands:",
+    ...Object.entries(COMMANDS).map(([name, c]) => `  ${name.padEnd(width)}  ${c.summary}`),
+    "",
+    ...Object.values(COMMANDS).map((c) => `  ${c.usage}`),
+  ].join("\n");
+}
+
+export async function runCli(argv: string[], io: CliIO = defaultIO): Promise<number> {
+  const [name, ...args] = argv;
+
+  if (!name || name === "help" || name === "--help" || name === "-h") {
+    io.stdout(usage());
+    return 0;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    io.stderr(`Unknown command: ${name}\n\n${usage()}`);
+    return 2;
+  }
+
+  // Library code reports progress with console.log; keep stdout for results
+  const log = console.log;
+  console.log = console.error;
+
+  try {
+    if (!command.skipMigrations) await initDb();
+    await command.run(args, io);
+    return 0;
+  } catch (err) {
+    const parseError =
+      err instanceof TypeError && String((err as { code?: string }).code).startsWith("ERR_PARSE_ARGS");
+    if (err instanceof UsageError || parseError) {
+      io.stderr(`${(err as Error).message}\n\nUsage: ${command.usage}`);
+      return 2;
+    }
+    io.stderr(`Error: ${err instanceof Error ? err.message : String(err)}`);
+    return 1;
+  } finally {
+    console.log = log;
+    await closeDb();
+  }
+}
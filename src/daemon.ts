@@ -0,0 +1,149 @@
+import { generateEmbeddings } from "./analysis";
+import { runReembed } from "./analysis/reembed";
+import { isAuthenticated } from "./twitter/auth";
+import { getBookmarksBudget, onRateLimitWait } from "./twitter/rateLimit";
+import { hasPendingBackfill, syncBookmarks, type SyncResult } from "./twitter/sync";
+
+// Headless mode: sync on an interval and embed whatever is new, so the index
+// is already fresh when the TUI is opened. Logs one JSON object per line.
+
+export interface LogEntry {
+  time: string;
+  level: "info" | "warn" | "error";
+  event: string;
+  [field: string]: unknown;
+}
+
+export interface DaemonOptions {
+  // Defaults to SYNC_INTERVAL_MINUTES, or hourly
+  intervalMinutes?: number;
+  includeThreads?: boolean;
+  // Generate embeddings after each sync (default true)
+  embed?: boolean;
+  // Run a single cycle and return
+  once?: boolean;
+  signal?: AbortSignal;
+  log?: (entry: LogEntry) => void;
+}
+
+export interface CycleResult {
+  sync: SyncResult | null;
+  embedded: number;
+  // Set when the API budget was exhausted and the sync was skipped
+  deferredUntil?: string;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 60;
+
+function writeLog(entry: LogEntry): void {
+  process.stdout.write(`${JSON.stringify(entry)}\n`);
+}
+
+// stdout is reserved for the JSON lines; the plain-text logging of the code the
+// daemon calls (API debug output, progress) goes to stderr while it runs
+function routeConsoleToStderr(): () => void {
+  const { log, info, debug } = console;
+  console.log = console.info = console.debug = console.error;
+  return () => Object.assign(console, { log, info, debug });
+}
+
+type Logger = (level: LogEntry["level"], event: string, fields?: Record<string, unknown>) => void;
+
+function createLogger(write: (entry: LogEntry) => void = writeLog): Logger {
+  return (level, event, fields = {}) =>
+    write({ time: new Date().toISOString(), level, event, ...fields });
+}
+
+function getIntervalMinutes(options: DaemonOptions): number {
+  const minutes = options.intervalMinutes ?? Number(process.env.SYNC_INTERVAL_MINUTES);
+  return Number.isFinite(minutes) && minutes > 0 ? minutes : DEFAULT_INTERVAL_MINUTES;
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+export async function runSyncCycle(options: DaemonOptions = {}): Promise<CycleResult> {
+  const log = createLogger(options.log);
+
+  // Don't spend a sync on a budget we know is empty
+  const budget = await getBookmarksBudget();
+  if (budget && budget.remaining <= 0 && new Date(budget.reset_at).getTime() > Date.now()) {
+    log("warn", "sync.deferred", { resumeAt: budget.reset_at });
+    return { sync: null, embedded: 0, deferredUntil: budget.reset_at };
+  }
+
+  // Finish an interrupted backfill before looking for new bookmarks
+  const mode = (await hasPendingBackfill()) ? "resume" : "incremental";
+  const started = Date.now();
+  log("info", "sync.start", { mode });
+
+  const sync = await syncBookmarks(undefined, { mode, includeThreads: options.includeThreads });
+  log("info", "sync.complete", { ...sync, durationMs: Date.now() - started });
+
+  let embedded = 0;
+  if (options.embed ?? true) {
+    const embedStarted = Date.now();
+    embedded = await generateEmbeddings();
+    log("info", "embeddings.complete", { embedded, durationMs: Date.now() - embedStarted });
+
+    // A queued model switch runs here, in the background of the schedule;
+    // search keeps using the old vectors until it finishes
+    const reembedStarted = Date.now();
+    const reembed = await runReembed();
+    if (reembed) {
+      log("info", "reembed.complete", { ...reembed, durationMs: Date.now() - reembedStarted });
+      // Bookmarks synced while it ran
+      embedded += await generateEmbeddings();
+    }
+  }
+
+  return { sync, embedded };
+}
+
+export async function runDaemon(options: DaemonOptions = {}): Promise<void> {
+  const log = createLogger(options.log);
+  const intervalMinutes = getIntervalMinutes(options);
+
+  if (!(await isAuthenticated())) {
+    throw new Error("Not authenticated. Connect from the Sync screen or set X_CONSOLE_BEARER_TOKEN.");
+  }
+
+  const restoreConsole = routeConsoleToStderr();
+  const stopWaitLogs = onRateLimitWait((wait) => log("warn", "rate_limit.wait", { ...wait }));
+  log("info", "daemon.start", { intervalMinutes, once: options.once ?? false });
+
+  try {
+    while (!options.signal?.aborted) {
+      let nextRun = Date.now() + intervalMinutes * 60 * 1000;
+
+      try {
+        const cycle = await runSyncCycle(options);
+        if (cycle.deferredUntil) {
+          // Retry as soon as the budget window resets
+          nextRun = new Date(cycle.deferredUntil).getTime() + 1000;
+        }
+      } catch (err) {
+        // A failed cycle shouldn't stop the daemon; the next one retries
+        log("error", "cycle.error", { error: err instanceof Error ? err.message : String(err) });
+      }
+
+      if (options.once) break;
+      log("info", "daemon.sleep", { nextRunAt: new Date(nextRun).toISOString() });
+      await sleep(nextRun - Date.now(), options.signal);
+    }
+  } finally {
+    stopWaitLogs();
+    log("info", "daemon.stop");
+    restoreConsole();
+  }
+}
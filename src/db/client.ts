@@ -1,5 +1,5 @@
 import { createClient, type Client } from "@libsql/client";
-import { join } from "path";
+import { migrate } from "./migrations";
 
 let db: Client | null = null;
 
@@ -15,61 +15,18 @@ export function getDb(): Client {
         authToken,
       });
     } else {
-      // Local SQLite file
+      // Local SQLite file, or another libsql URL (e.g. a temp file in tests)
       db = createClient({
-        url: "file:bookmarks.db",
+        url: process.env.BOOKMARKS_DB_URL ?? "file:bookmarks.db",
       });
     }
   }
   return db;
 }
 
+// Bring the schema up to date; safe to call on every start
 export async function initDb(): Promise<void> {
-  const client = getDb();
-  const schemaPath = join(import.meta.dir, "schema.sql");
-  const schemaFile = Bun.file(schemaPath);
-  const schema = await schemaFile.text();
-
-  // Split schema into individual statements and execute
-  const statements = schema
-    .split(";")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
-
-  for (const statement of statements) {
-    try {
-      await client.execute(statement);
-    } catch (e) {
-      // Ignore errors for CREATE TABLE IF NOT EXISTS and similar
-      const msg = e instanceof Error ? e.message : String(e);
-      if (!msg.includes("already exists")) {
-        console.error("Schema error:", msg);
-      }
-    }
-  }
-
-  // Run migrations for existing databases
-  await runMigrations(client);
-}
-
-async function runMigrations(client: Client): Promise<void> {
-  // Add embedding column if it doesn't exist
-  try {
-    await client.execute(
-      "ALTER TABLE bookmarks ADD COLUMN embedding TEXT"
-    );
-  } catch {
-    // Column already exists
-  }
-
-  // Add cluster_id column if it doesn't exist
-  try {
-    await client.execute(
-      "ALTER TABLE bookmarks ADD COLUMN cluster_id INTEGER"
-    );
-  } catch {
-    // Column already exists
-  }
+  await migrate(getDb());
 }
 
 export async function closeDb(): Promise<void> {
@@ -0,0 +1,461 @@
+import type { Client, Transaction } from "@libsql/client";
+
+// Numbered schema migrations. Each runs once, in its own write transaction,
+// and is recorded in schema_migrations. Never edit a migration that has
+// shipped; add a new one with the next version number instead.
+//
+// Databases created before migrations existed already have some of the
+// tables, so the first migrations use IF NOT EXISTS and add the columns older
+// versions lacked.
+
+export interface Migration {
+  version: number;
+  name: string;
+  // Statements to run in order, or a function for anything conditional
+  up: string[] | ((tx: Transaction) => Promise<void>);
+}
+
+export interface MigrationStatus {
+  version: number;
+  name: string;
+  applied_at: string | null;
+}
+
+// Columns added to pre-migration databases over time, by table
+const LEGACY_COLUMNS: Record<string, string[]> = {
+  bookmarks: [
+    "embedding TEXT",
+    "cluster_id INTEGER",
+    "first_seen_at TEXT",
+    "feed_position INTEGER",
+    "removed_at TEXT",
+    "conversation_id TEXT",
+    "thread_synced_at TEXT",
+    "source TEXT NOT NULL DEFAULT 'twitter'",
+    "url TEXT",
+  ],
+  sync_state: ["backfill_started_at TEXT", "backfill_position INTEGER"],
+};
+
+async function addMissingColumns(tx: Transaction, table: string, columns: string[]): Promise<void> {
+  const existing = await tx.execute(`PRAGMA table_info(${table})`);
+  const names = new Set(existing.rows.map((row) => row.name as string));
+  for (const column of columns) {
+    if (!names.has(column.split(" ")[0]!)) {
+      await tx.execute(`ALTER TABLE ${table} ADD COLUMN ${column}`);
+    }
+  }
+}
+
+// BEFORE/AFTER trigger pair that re-indexes the bookmarks matched by `ids`
+// (a single id expression, or a subquery) when `table` changes
+function ftsTriggers(table: string, event: string, when: string, ids: string): string[] {
+  const name = `${table}_fts_${event.split(" ")[0]!.toLowerCase()}`;
+  const match = ids.startsWith("(") ? `id IN ${ids}` : `id = ${ids}`;
+  const columns = "rowid, content, author, urls";
+  const triggers: string[] = [];
+  if (event !== "INSERT" || table !== "bookmarks") {
+    triggers.push(`CREATE TRIGGER ${name}_before BEFORE ${event} ON ${table} ${when} BEGIN
+      INSERT INTO bookmarks_fts(bookmarks_fts, ${columns})
+        SELECT 'delete', id, content, author, urls FROM bookmark_search WHERE ${match};
+    END`);
+  }
+  if (event !== "DELETE" || table !== "bookmarks") {
+    triggers.push(`CREATE TRIGGER ${name}_after AFTER ${event} ON ${table} ${when} BEGIN
+      INSERT INTO bookmarks_fts(${columns})
+        SELECT id, content, author, urls FROM bookmark_search WHERE ${match};
+    END`);
+  }
+  return triggers;
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: "initial schema",
+    async up(tx) {
+      const statements = [
+        // Twitter users (authors of bookmarked tweets)
+        `CREATE TABLE IF NOT EXISTS authors (
+          id INTEGER PRIMARY KEY,
+          twitter_id TEXT UNIQUE NOT NULL,
+          username TEXT NOT NULL,
+          display_name TEXT,
+          avatar_url TEXT
+        )`,
+        // Bookmarked tweets
+        `CREATE TABLE IF NOT EXISTS bookmarks (
+          id INTEGER PRIMARY KEY,
+          tweet_id TEXT UNIQUE NOT NULL,
+          author_id INTEGER REFERENCES authors(id),
+          content TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          bookmarked_at TEXT NOT NULL,  -- first_seen_at, or the start of the backfill that found it
+          first_seen_at TEXT,           -- when the indexer first saw this bookmark
+          feed_position INTEGER,        -- index in the reverse-chronological bookmark feed at that time
+          like_count INTEGER DEFAULT 0,
+          retweet_count INTEGER DEFAULT 0,
+          synced_at TEXT NOT NULL,
+          removed_at TEXT,              -- set when a complete sync no longer finds the bookmark
+          conversation_id TEXT,
+          thread_synced_at TEXT,        -- when the author's self-replies were last fetched
+          source TEXT NOT NULL DEFAULT 'twitter', -- bookmark source that first imported it
+          url TEXT,                     -- permalink for bookmarks that aren't tweets
+          embedding TEXT,  -- JSON array of floats
+          cluster_id INTEGER
+        )`,
+        // Links from tweet entities, with t.co short links expanded
+        `CREATE TABLE IF NOT EXISTS bookmark_links (
+          id INTEGER PRIMARY KEY,
+          bookmark_id INTEGER NOT NULL REFERENCES bookmarks(id),
+          position INTEGER NOT NULL,
+          url TEXT NOT NULL, -- t.co link as it appears in the tweet text
+          expanded_url TEXT NOT NULL,
+          display_url TEXT,
+          title TEXT,
+          description TEXT
+        )`,
+        // Photos, videos and GIFs attached to bookmarked tweets
+        `CREATE TABLE IF NOT EXISTS bookmark_media (
+          id INTEGER PRIMARY KEY,
+          bookmark_id INTEGER NOT NULL REFERENCES bookmarks(id),
+          position INTEGER NOT NULL,
+          media_key TEXT NOT NULL,
+          type TEXT NOT NULL, -- 'photo', 'video', 'animated_gif'
+          url TEXT,
+          preview_image_url TEXT,
+          alt_text TEXT,
+          width INTEGER,
+          height INTEGER
+        )`,
+        // Tweets a bookmark quotes, replies to or retweets
+        `CREATE TABLE IF NOT EXISTS referenced_tweets (
+          id INTEGER PRIMARY KEY,
+          bookmark_id INTEGER NOT NULL REFERENCES bookmarks(id),
+          type TEXT NOT NULL, -- 'quoted', 'replied_to', 'retweeted'
+          tweet_id TEXT NOT NULL,
+          author_username TEXT,
+          content TEXT,
+          created_at TEXT
+        )`,
+        // Author self-replies that continue a bookmarked thread opener
+        `CREATE TABLE IF NOT EXISTS thread_tweets (
+          id INTEGER PRIMARY KEY,
+          bookmark_id INTEGER NOT NULL REFERENCES bookmarks(id),
+          position INTEGER NOT NULL,
+          tweet_id TEXT NOT NULL,
+          content TEXT NOT NULL,
+          created_at TEXT
+        )`,
+        // Full-text search virtual table
+        `CREATE VIRTUAL TABLE IF NOT EXISTS bookmarks_fts USING fts5(
+          content,
+          content_rowid='id',
+          tokenize='porter'
+        )`,
+        // AI-generated topics/clusters
+        `CREATE TABLE IF NOT EXISTS topics (
+          id INTEGER PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )`,
+        // Bookmark-topic relationships
+        `CREATE TABLE IF NOT EXISTS bookmark_topics (
+          bookmark_id INTEGER REFERENCES bookmarks(id),
+          topic_id INTEGER REFERENCES topics(id),
+          confidence REAL,
+          PRIMARY KEY (bookmark_id, topic_id)
+        )`,
+        // Extracted actionable items
+        `CREATE TABLE IF NOT EXISTS items (
+          id INTEGER PRIMARY KEY,
+          bookmark_id INTEGER REFERENCES bookmarks(id),
+          type TEXT NOT NULL, -- 'task', 'idea', 'resource', etc.
+          title TEXT NOT NULL,
+          description TEXT,
+          status TEXT DEFAULT 'pending', -- 'pending', 'done', 'archived'
+          created_at TEXT DEFAULT CURRENT_TIMESTAMP
+        )`,
+        // Sync metadata
+        `CREATE TABLE IF NOT EXISTS sync_state (
+          id INTEGER PRIMARY KEY CHECK (id = 1),
+          last_sync_at TEXT,
+          pagination_token TEXT,
+          backfill_started_at TEXT,
+          backfill_position INTEGER
+        )`,
+      ];
+      for (const statement of statements) {
+        await tx.execute(statement);
+      }
+
+      for (const [table, columns] of Object.entries(LEGACY_COLUMNS)) {
+        await addMissingColumns(tx, table, columns);
+      }
+
+      for (const statement of [
+        "CREATE INDEX IF NOT EXISTS idx_bookmarks_tweet_id ON bookmarks(tweet_id)",
+        "CREATE INDEX IF NOT EXISTS idx_bookmarks_synced_at ON bookmarks(synced_at)",
+        "CREATE INDEX IF NOT EXISTS idx_bookmark_links_bookmark_id ON bookmark_links(bookmark_id)",
+        "CREATE INDEX IF NOT EXISTS idx_bookmark_media_bookmark_id ON bookmark_media(bookmark_id)",
+        "CREATE INDEX IF NOT EXISTS idx_referenced_tweets_bookmark_id ON referenced_tweets(bookmark_id)",
+        "CREATE INDEX IF NOT EXISTS idx_thread_tweets_bookmark_id ON thread_tweets(bookmark_id)",
+        "CREATE INDEX IF NOT EXISTS idx_items_type ON items(type)",
+        "CREATE INDEX IF NOT EXISTS idx_items_status ON items(status)",
+      ]) {
+        await tx.execute(statement);
+      }
+    },
+  },
+  {
+    version: 2,
+    name: "rate limits",
+    up: [
+      // Last known API budget per endpoint, from the x-rate-limit-* response headers
+      `CREATE TABLE IF NOT EXISTS rate_limits (
+        endpoint TEXT PRIMARY KEY, -- e.g. '/users/:id/bookmarks'
+        limit_total INTEGER,
+        remaining INTEGER NOT NULL,
+        reset_at TEXT NOT NULL,
+        updated_at TEXT NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 3,
+    name: "saved searches",
+    up: [
+      // Named searches, re-run on demand (e.g. to serve as a feed)
+      `CREATE TABLE IF NOT EXISTS saved_searches (
+        id INTEGER PRIMARY KEY,
+        name TEXT UNIQUE NOT NULL,
+        query TEXT NOT NULL,
+        mode TEXT NOT NULL DEFAULT 'hybrid', -- 'hybrid', 'keyword', 'semantic'
+        created_at TEXT DEFAULT CURRENT_TIMESTAMP
+      )`,
+    ],
+  },
+  {
+    version: 4,
+    name: "external-content full-text search",
+    up: [
+      // What the search index sees for each bookmark: the tweet and the rest of
+      // its thread, the author, and the expanded link URLs
+      `CREATE VIEW IF NOT EXISTS bookmark_search AS
+        SELECT
+          b.id AS id,
+          b.content || COALESCE(char(10) || char(10) || (
+            SELECT group_concat(content, char(10) || char(10))
+            FROM (SELECT content FROM thread_tweets WHERE bookmark_id = b.id ORDER BY position)
+          ), '') AS content,
+          TRIM(COALESCE(a.username, '') || ' ' || COALESCE(a.display_name, '')) AS author,
+          COALESCE((
+            SELECT group_concat(expanded_url, ' ')
+            FROM (SELECT expanded_url FROM bookmark_links WHERE bookmark_id = b.id ORDER BY position)
+          ), '') AS urls
+        FROM bookmarks b
+        LEFT JOIN authors a ON a.id = b.author_id`,
+      "DROP TABLE IF EXISTS bookmarks_fts",
+      `CREATE VIRTUAL TABLE bookmarks_fts USING fts5(
+        content,
+        author,
+        urls,
+        content='bookmark_search',
+        content_rowid='id',
+        tokenize='porter'
+      )`,
+      // An external-content index has to be told the old values to remove, so
+      // BEFORE triggers delete the document while the view still shows the old
+      // state, and AFTER triggers index the new one
+      ...ftsTriggers("bookmarks", "INSERT", "", "new.id"),
+      ...ftsTriggers(
+        "bookmarks",
+        "UPDATE OF content, author_id",
+        "WHEN old.content IS NOT new.content OR old.author_id IS NOT new.author_id",
+        "new.id"
+      ),
+      ...ftsTriggers("bookmarks", "DELETE", "", "old.id"),
+      ...ftsTriggers(
+        "authors",
+        "UPDATE OF username, display_name",
+        "WHEN old.username IS NOT new.username OR old.display_name IS NOT new.display_name",
+        "(SELECT id FROM bookmarks WHERE author_id = new.id)"
+      ),
+      ...ftsTriggers("bookmark_links", "INSERT", "", "new.bookmark_id"),
+      ...ftsTriggers("bookmark_links", "DELETE", "", "old.bookmark_id"),
+      ...ftsTriggers("thread_tweets", "INSERT", "", "new.bookmark_id"),
+      ...ftsTriggers("thread_tweets", "DELETE", "", "old.bookmark_id"),
+      "INSERT INTO bookmarks_fts(bookmarks_fts) VALUES ('rebuild')",
+    ],
+  },
+  {
+    version: 5,
+    name: "binary embeddings with a vector index",
+    up: [
+      // Embeddings move from JSON text to float32 blobs. Rows whose JSON isn't a
+      // 384-dimension vector are left NULL and get re-embedded.
+      "ALTER TABLE bookmarks ADD COLUMN embedding_f32 F32_BLOB(384)",
+      `UPDATE bookmarks SET embedding_f32 = vector32(embedding)
+        WHERE embedding IS NOT NULL AND json_valid(embedding) AND json_array_length(embedding) = 384`,
+      "ALTER TABLE bookmarks DROP COLUMN embedding",
+      "ALTER TABLE bookmarks RENAME COLUMN embedding_f32 TO embedding",
+      "CREATE INDEX idx_bookmarks_embedding ON bookmarks (libsql_vector_idx(embedding, 'metric=cosine'))",
+    ],
+  },
+  {
+    version: 6,
+    name: "per-row embedding models",
+    up: [
+      "ALTER TABLE bookmarks ADD COLUMN embedding_model TEXT",
+      "ALTER TABLE bookmarks ADD COLUMN embedding_dim INTEGER",
+      // Everything embedded so far came from the original model
+      `UPDATE bookmarks SET embedding_model = 'Xenova/all-MiniLM-L6-v2', embedding_dim = 384
+        WHERE embedding IS NOT NULL`,
+      // The model stored vectors belong to, and a re-embed in progress
+      `CREATE TABLE embedding_state (
+        id INTEGER PRIMARY KEY CHECK (id = 1),
+        model TEXT NOT NULL,
+        dim INTEGER NOT NULL,
+        reembed_model TEXT,
+        reembed_started_at TEXT
+      )`,
+      "INSERT INTO embedding_state (id, model, dim) VALUES (1, 'Xenova/all-MiniLM-L6-v2', 384)",
+      // Vectors from the re-embed model, swapped in once every bookmark has one
+      `CREATE TABLE embedding_staging (
+        bookmark_id INTEGER PRIMARY KEY REFERENCES bookmarks(id) ON DELETE CASCADE,
+        model TEXT NOT NULL,
+        embedding BLOB NOT NULL
+      )`,
+    ],
+  },
+  {
+    version: 7,
+    name: "embedding document hashes",
+    up: [
+      // Hash of the document each vector was made from. Existing vectors have
+      // none: they embedded the bare tweet text and are redone once.
+      "ALTER TABLE bookmarks ADD COLUMN embedding_hash TEXT",
+      "ALTER TABLE embedding_staging ADD COLUMN hash TEXT",
+    ],
+  },
+  {
+    version: 8,
+    name: "expansion backfill",
+    up: [
+      // Bookmarks synced before links, media and referenced tweets were stored
+      // never got them, and incremental syncs don't go back that far. The next
+      // sync walks the whole feed once instead.
+      "ALTER TABLE sync_state ADD COLUMN expansions_backfill_pending INTEGER NOT NULL DEFAULT 0",
+      `INSERT INTO sync_state (id, expansions_backfill_pending)
+        SELECT 1, 1 WHERE EXISTS (SELECT 1 FROM bookmarks WHERE source = 'twitter')
+        ON CONFLICT(id) DO UPDATE SET expansions_backfill_pending = 1`,
+    ],
+  },
+  {
+    version: 9,
+    name: "embedded document versions",
+    up: [
+      // The synced_at and thread_synced_at of the bookmark when the document
+      // behind its vector was built. Only bookmarks that moved on since can
+      // have a different document now; existing vectors are checked once.
+      "ALTER TABLE bookmarks ADD COLUMN embedding_synced_at TEXT",
+      "ALTER TABLE bookmarks ADD COLUMN embedding_thread_synced_at TEXT",
+      "ALTER TABLE embedding_staging ADD COLUMN synced_at TEXT",
+      "ALTER TABLE embedding_staging ADD COLUMN thread_synced_at TEXT",
+    ],
+  },
+  {
+    version: 10,
+    name: "bookmark sources",
+    up: [
+      // When each source last saw each bookmark. bookmarks.source only says
+      // where a bookmark came from first, but a feed's removals are decided
+      // by what that feed saw, whatever imported the bookmark.
+      `CREATE TABLE bookmark_sources (
+        bookmark_id INTEGER NOT NULL REFERENCES bookmarks(id) ON DELETE CASCADE,
+        source TEXT NOT NULL,
+        seen_at TEXT NOT NULL,
+        PRIMARY KEY (bookmark_id, source)
+      )`,
+      "INSERT INTO bookmark_sources (bookmark_id, source, seen_at) SELECT id, source, synced_at FROM bookmarks",
+    ],
+  },
+];
+
+async function ensureMigrationsTable(client: Client): Promise<void> {
+  await client.execute(
+    `CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )`
+  );
+}
+
+async function getAppliedVersions(client: Client): Promise<Map<number, string>> {
+  const result = await client.execute("SELECT version, applied_at FROM schema_migrations");
+  return new Map(result.rows.map((row) => [row.version as number, row.applied_at as string]));
+}
+
+export async function getMigrationStatus(
+  client: Client,
+  migrations: Migration[] = MIGRATIONS
+): Promise<MigrationStatus[]> {
+  await ensureMigrationsTable(client);
+  const applied = await getAppliedVersions(client);
+  return migrations.map((m) => ({ version: m.version, name: m.name, applied_at: applied.get(m.version) ?? null }));
+}
+
+// Apply pending migrations in version order; returns the versions applied
+export async function migrate(client: Client, migrations: Migration[] = MIGRATIONS): Promise<number[]> {
+  await ensureMigrationsTable(client);
+  const applied = await getAppliedVersions(client);
+
+  const latest = Math.max(0, ...migrations.map((m) => m.version));
+  const newer = [...applied.keys()].filter((v) => v > latest);
+  if (newer.length > 0) {
+    throw new Error(
+      `Database schema is at version ${Math.max(...newer)}, newer than this build knows (${latest}). Upgrade first.`
+    );
+  }
+
+  const ran: number[] = [];
+  for (const migration of [...migrations].sort((a, b) => a.version - b.version)) {
+    if (applied.has(migration.version)) continue;
+
+    const tx = await client.transaction("write");
+    try {
+      // Another process (the daemon, say) may have applied it while we waited for the lock
+      const done = await tx.execute({
+        sql: "SELECT 1 FROM schema_migrations WHERE version = ?",
+        args: [migration.version],
+      });
+      if (done.rows.length > 0) {
+        await tx.rollback();
+        continue;
+      }
+
+      if (typeof migration.up === "function") {
+        await migration.up(tx);
+      } else {
+        for (const statement of migration.up) {
+          await tx.execute(statement);
+        }
+      }
+      await tx.execute({
+        sql: "INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)",
+        args: [migration.version, migration.name, new Date().toISOString()],
+      });
+      await tx.commit();
+      ran.push(migration.version);
+    } catch (err) {
+      if (!tx.closed) await tx.rollback();
+      const message = err instanceof Error ? err.message : String(err);
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${message}`);
+    } finally {
+      tx.close();
+    }
+  }
+  return ran;
+}
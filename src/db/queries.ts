@@ -16,16 +16,75 @@ export interface Bookmark {
   content: string;
   created_at: string;
   bookmarked_at: string;
+  first_seen_at: string | null;
+  feed_position: number | null;
   like_count: number;
   retweet_count: number;
   synced_at: string;
+  removed_at: string | null;
+  conversation_id: string | null;
+  thread_synced_at: string | null;
+  source: string;
+  url: string | null;
 }
 
+// Whether listings include bookmarks that were un-bookmarked on Twitter
+export type RemovedFilter = "include" | "exclude" | "only";
+
 export interface BookmarkWithAuthor extends Bookmark {
   username: string;
   display_name: string | null;
 }
 
+// Everything about the author, for exports that should round-trip
+export interface BookmarkWithAuthorDetails extends BookmarkWithAuthor {
+  author_twitter_id: string;
+  avatar_url: string | null;
+}
+
+export interface BookmarkLink {
+  id: number;
+  bookmark_id: number;
+  position: number;
+  url: string;
+  expanded_url: string;
+  display_url: string | null;
+  title: string | null;
+  description: string | null;
+}
+
+export interface BookmarkMedia {
+  id: number;
+  bookmark_id: number;
+  position: number;
+  media_key: string;
+  type: "photo" | "video" | "animated_gif";
+  url: string | null;
+  preview_image_url: string | null;
+  alt_text: string | null;
+  width: number | null;
+  height: number | null;
+}
+
+export interface ReferencedTweet {
+  id: number;
+  bookmark_id: number;
+  type: "quoted" | "replied_to" | "retweeted";
+  tweet_id: string;
+  author_username: string | null;
+  content: string | null;
+  created_at: string | null;
+}
+
+export interface ThreadTweet {
+  id: number;
+  bookmark_id: number;
+  position: number;
+  tweet_id: string;
+  content: string;
+  created_at: string | null;
+}
+
 export interface Topic {
   id: number;
   name: string;
@@ -33,6 +92,10 @@ export interface Topic {
   created_at: string;
 }
 
+export interface TopicSummary extends Topic {
+  bookmark_count: number;
+}
+
 export interface Item {
   id: number;
   bookmark_id: number;
@@ -43,15 +106,71 @@ export interface Item {
   created_at: string;
 }
 
+export interface SavedSearch {
+  id: number;
+  name: string;
+  query: string;
+  mode: "hybrid" | "keyword" | "semantic";
+  created_at: string;
+}
+
+export interface BookmarkFilter {
+  limit?: number;
+  offset?: number;
+  removed?: RemovedFilter;
+  source?: string;
+  author?: string; // Username
+  topicId?: number;
+  // Tweet creation time bounds (ISO 8601), inclusive
+  since?: string;
+  until?: string;
+}
+
+export interface ItemFilter {
+  type?: Item["type"];
+  status?: Item["status"];
+}
+
 export interface SyncState {
   last_sync_at: string | null;
   pagination_token: string | null;
+  // Anchor of the backfill the cursor belongs to, so resumed runs keep ordering
+  backfill_started_at: string | null;
+  backfill_position: number | null;
+  // 1 until a full sync has stored expansions for bookmarks synced without them
+  expansions_backfill_pending: number;
+}
+
+export interface EmbeddingState {
+  model: string; // Model of the stored embeddings
+  dim: number;
+  reembed_model: string | null; // Model being re-embedded with, if any
+  reembed_started_at: string | null;
+}
+
+export interface RateLimit {
+  endpoint: string;
+  limit_total: number | null;
+  remaining: number;
+  reset_at: string;
+  updated_at: string;
 }
 
 function rowToObject<T>(row: Row): T {
   return row as unknown as T;
 }
 
+function removedClause(filter: RemovedFilter): string {
+  switch (filter) {
+    case "exclude":
+      return "b.removed_at IS NULL";
+    case "only":
+      return "b.removed_at IS NOT NULL";
+    default:
+      return "1 = 1";
+  }
+}
+
 // Authors
 export async function upsertAuthor(author: Omit<Author, "id">): Promise<number> {
   const db = getDb();
@@ -80,29 +199,76 @@ export async function getAuthorByTwitterId(twitterId: string): Promise<Author |
   return row ? rowToObject<Author>(row) : null;
 }
 
+// The most recently added author with this handle
+export async function getAuthorByUsername(username: string): Promise<Author | null> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM authors WHERE username = ? COLLATE NOCASE ORDER BY id DESC LIMIT 1",
+    args: [username],
+  });
+  const row = result.rows[0];
+  return row ? rowToObject<Author>(row) : null;
+}
+
 // Bookmarks
-export async function upsertBookmark(
-  bookmark: Omit<Bookmark, "id">
-): Promise<number> {
+
+// Author of bookmarks that no source has named yet
+export const UNKNOWN_AUTHOR: Omit<Author, "id"> = {
+  twitter_id: "archive:unknown",
+  username: "unknown",
+  display_name: "Unknown author",
+  avatar_url: null,
+};
+
+// A bookmark as a source reports it. Imports often know only part of a
+// bookmark; null fields keep what's stored rather than overwrite it.
+export interface BookmarkUpsert
+  extends Omit<
+    Bookmark,
+    "id" | "removed_at" | "thread_synced_at" | "author_id" | "content" | "created_at" | "like_count" | "retweet_count"
+  > {
+  author_id: number | null; // New bookmarks without one get UNKNOWN_AUTHOR
+  content: string | null;
+  created_at: string | null; // Defaults to synced_at for new bookmarks
+  like_count: number | null;
+  retweet_count: number | null;
+}
+
+export async function upsertBookmark(bookmark: BookmarkUpsert): Promise<number> {
   const db = getDb();
+  const insertAuthorId = bookmark.author_id ?? (await upsertAuthor(UNKNOWN_AUTHOR));
   const result = await db.execute({
-    sql: `INSERT INTO bookmarks (tweet_id, author_id, content, created_at, bookmarked_at, like_count, retweet_count, synced_at)
-          VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    // bookmarked_at, first_seen_at, feed_position, source and created_at are only set on first insert
+    sql: `INSERT INTO bookmarks (tweet_id, author_id, content, created_at, bookmarked_at, first_seen_at, feed_position, like_count, retweet_count, synced_at, conversation_id, source, url)
+          VALUES (?, ?, COALESCE(?, ''), COALESCE(?, ?), ?, ?, ?, COALESCE(?, 0), COALESCE(?, 0), ?, ?, ?, ?)
           ON CONFLICT(tweet_id) DO UPDATE SET
-            content = excluded.content,
-            like_count = excluded.like_count,
-            retweet_count = excluded.retweet_count,
+            author_id = COALESCE(?, bookmarks.author_id),
+            content = COALESCE(NULLIF(excluded.content, ''), bookmarks.content),
+            conversation_id = COALESCE(excluded.conversation_id, bookmarks.conversation_id),
+            like_count = COALESCE(?, bookmarks.like_count),
+            retweet_count = COALESCE(?, bookmarks.retweet_count),
+            url = COALESCE(excluded.url, bookmarks.url),
             synced_at = excluded.synced_at
           RETURNING id`,
     args: [
       bookmark.tweet_id,
-      bookmark.author_id,
+      insertAuthorId,
       bookmark.content,
       bookmark.created_at,
+      bookmark.synced_at,
       bookmark.bookmarked_at,
+      bookmark.first_seen_at,
+      bookmark.feed_position,
       bookmark.like_count,
       bookmark.retweet_count,
       bookmark.synced_at,
+      bookmark.conversation_id,
+      bookmark.source,
+      bookmark.url,
+      // Counts and author are compared before their insert defaults apply
+      bookmark.author_id,
+      bookmark.like_count,
+      bookmark.retweet_count,
     ],
   });
   const row = result.rows[0];
@@ -110,22 +276,99 @@ export async function upsertBookmark(
   return row.id as number;
 }
 
+export async function getExistingTweetIds(tweetIds: string[]): Promise<Set<string>> {
+  if (tweetIds.length === 0) return new Set();
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT tweet_id FROM bookmarks WHERE tweet_id IN (${tweetIds.map(() => "?").join(", ")})`,
+    args: tweetIds,
+  });
+  return new Set(result.rows.map((row) => row.tweet_id as string));
+}
+
 export async function getBookmarks(
   limit = 100,
-  offset = 0
+  offset = 0,
+  removed: RemovedFilter = "include"
 ): Promise<BookmarkWithAuthor[]> {
   const db = getDb();
   const result = await db.execute({
     sql: `SELECT b.*, a.username, a.display_name
           FROM bookmarks b
           LEFT JOIN authors a ON b.author_id = a.id
-          ORDER BY b.bookmarked_at DESC
+          WHERE ${removedClause(removed)}
+          ORDER BY b.bookmarked_at DESC, b.feed_position ASC
           LIMIT ? OFFSET ?`,
     args: [limit, offset],
   });
   return result.rows.map((row) => rowToObject<BookmarkWithAuthor>(row));
 }
 
+export async function getBookmarksWithAuthorDetails(
+  limit = 100,
+  offset = 0
+): Promise<BookmarkWithAuthorDetails[]> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT b.*, a.username, a.display_name, a.twitter_id AS author_twitter_id, a.avatar_url
+          FROM bookmarks b
+          LEFT JOIN authors a ON b.author_id = a.id
+          ORDER BY b.bookmarked_at DESC, b.feed_position ASC, b.id
+          LIMIT ? OFFSET ?`,
+    args: [limit, offset],
+  });
+  return result.rows.map((row) => rowToObject<BookmarkWithAuthorDetails>(row));
+}
+
+// Filtered, paginated bookmarks plus the total number matching the filter
+export async function listBookmarks(
+  filter: BookmarkFilter = {}
+): Promise<{ bookmarks: BookmarkWithAuthor[]; total: number }> {
+  const db = getDb();
+  const conditions = [removedClause(filter.removed ?? "include")];
+  const args: (string | number)[] = [];
+
+  if (filter.source) {
+    conditions.push("b.source = ?");
+    args.push(filter.source);
+  }
+  if (filter.author) {
+    conditions.push("a.username = ? COLLATE NOCASE");
+    args.push(filter.author);
+  }
+  if (filter.topicId !== undefined) {
+    conditions.push("b.id IN (SELECT bookmark_id FROM bookmark_topics WHERE topic_id = ?)");
+    args.push(filter.topicId);
+  }
+  if (filter.since) {
+    conditions.push("b.created_at >= ?");
+    args.push(filter.since);
+  }
+  if (filter.until) {
+    conditions.push("b.created_at <= ?");
+    args.push(filter.until);
+  }
+
+  const from = `FROM bookmarks b
+          LEFT JOIN authors a ON b.author_id = a.id
+          WHERE ${conditions.join(" AND ")}`;
+  const [rows, count] = await Promise.all([
+    db.execute({
+      sql: `SELECT b.*, a.username, a.display_name
+            ${from}
+            ORDER BY b.bookmarked_at DESC, b.feed_position ASC
+            LIMIT ? OFFSET ?`,
+      args: [...args, filter.limit ?? 100, filter.offset ?? 0],
+    }),
+    db.execute({ sql: `SELECT COUNT(*) as count ${from}`, args }),
+  ]);
+
+  return {
+    bookmarks: rows.rows.map((row) => rowToObject<BookmarkWithAuthor>(row)),
+    total: (count.rows[0]?.count as number) ?? 0,
+  };
+}
+
 export async function getBookmarkById(id: number): Promise<BookmarkWithAuthor | null> {
   const db = getDb();
   const result = await db.execute({
@@ -139,20 +382,333 @@ export async function getBookmarkById(id: number): Promise<BookmarkWithAuthor |
   return row ? rowToObject<BookmarkWithAuthor>(row) : null;
 }
 
-export async function searchBookmarks(query: string): Promise<BookmarkWithAuthor[]> {
+export async function searchBookmarks(
+  query: string,
+  removed: RemovedFilter = "include"
+): Promise<BookmarkWithAuthor[]> {
   const db = getDb();
   const result = await db.execute({
     sql: `SELECT b.*, a.username, a.display_name
           FROM bookmarks b
           LEFT JOIN authors a ON b.author_id = a.id
-          WHERE b.content LIKE ? OR a.username LIKE ?
-          ORDER BY b.bookmarked_at DESC
+          WHERE (b.content LIKE ? OR a.username LIKE ?) AND ${removedClause(removed)}
+          ORDER BY b.bookmarked_at DESC, b.feed_position ASC
           LIMIT 100`,
     args: [`%${query}%`, `%${query}%`],
   });
   return result.rows.map((row) => rowToObject<BookmarkWithAuthor>(row));
 }
 
+// Tweet expansions (links, media, referenced tweets) are replaced wholesale on each sync
+export async function replaceBookmarkLinks(
+  bookmarkId: number,
+  links: Omit<BookmarkLink, "id" | "bookmark_id">[]
+): Promise<void> {
+  const db = getDb();
+  await db.batch(
+    [
+      { sql: "DELETE FROM bookmark_links WHERE bookmark_id = ?", args: [bookmarkId] },
+      ...links.map((link) => ({
+        sql: `INSERT INTO bookmark_links (bookmark_id, position, url, expanded_url, display_url, title, description)
+              VALUES (?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          bookmarkId,
+          link.position,
+          link.url,
+          link.expanded_url,
+          link.display_url,
+          link.title,
+          link.description,
+        ],
+      })),
+    ],
+    "write"
+  );
+}
+
+export async function replaceBookmarkMedia(
+  bookmarkId: number,
+  media: Omit<BookmarkMedia, "id" | "bookmark_id">[]
+): Promise<void> {
+  const db = getDb();
+  await db.batch(
+    [
+      { sql: "DELETE FROM bookmark_media WHERE bookmark_id = ?", args: [bookmarkId] },
+      ...media.map((m) => ({
+        sql: `INSERT INTO bookmark_media (bookmark_id, position, media_key, type, url, preview_image_url, alt_text, width, height)
+              VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        args: [
+          bookmarkId,
+          m.position,
+          m.media_key,
+          m.type,
+          m.url,
+          m.preview_image_url,
+          m.alt_text,
+          m.width,
+          m.height,
+        ],
+      })),
+    ],
+    "write"
+  );
+}
+
+export async function replaceReferencedTweets(
+  bookmarkId: number,
+  tweets: Omit<ReferencedTweet, "id" | "bookmark_id">[]
+): Promise<void> {
+  const db = getDb();
+  await db.batch(
+    [
+      { sql: "DELETE FROM referenced_tweets WHERE bookmark_id = ?", args: [bookmarkId] },
+      ...tweets.map((t) => ({
+        sql: `INSERT INTO referenced_tweets (bookmark_id, type, tweet_id, author_username, content, created_at)
+              VALUES (?, ?, ?, ?, ?, ?)`,
+        args: [bookmarkId, t.type, t.tweet_id, t.author_username, t.content, t.created_at],
+      })),
+    ],
+    "write"
+  );
+}
+
+async function getRowsForBookmarks<T extends { bookmark_id: number }>(
+  table: string,
+  bookmarkIds: number[],
+  orderBy: string
+): Promise<Map<number, T[]>> {
+  const grouped = new Map<number, T[]>();
+  if (bookmarkIds.length === 0) return grouped;
+
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT * FROM ${table}
+          WHERE bookmark_id IN (${bookmarkIds.map(() => "?").join(", ")})
+          ORDER BY bookmark_id, ${orderBy}`,
+    args: bookmarkIds,
+  });
+  for (const row of result.rows) {
+    const item = rowToObject<T>(row);
+    const list = grouped.get(item.bookmark_id) ?? [];
+    list.push(item);
+    grouped.set(item.bookmark_id, list);
+  }
+  return grouped;
+}
+
+export function getLinksForBookmarks(bookmarkIds: number[]): Promise<Map<number, BookmarkLink[]>> {
+  return getRowsForBookmarks<BookmarkLink>("bookmark_links", bookmarkIds, "position");
+}
+
+export function getMediaForBookmarks(bookmarkIds: number[]): Promise<Map<number, BookmarkMedia[]>> {
+  return getRowsForBookmarks<BookmarkMedia>("bookmark_media", bookmarkIds, "position");
+}
+
+export function getReferencedTweetsForBookmarks(
+  bookmarkIds: number[]
+): Promise<Map<number, ReferencedTweet[]>> {
+  return getRowsForBookmarks<ReferencedTweet>("referenced_tweets", bookmarkIds, "id");
+}
+
+export function getThreadTweetsForBookmarks(
+  bookmarkIds: number[]
+): Promise<Map<number, ThreadTweet[]>> {
+  return getRowsForBookmarks<ThreadTweet>("thread_tweets", bookmarkIds, "position");
+}
+
+export function getItemsForBookmarks(bookmarkIds: number[]): Promise<Map<number, Item[]>> {
+  return getRowsForBookmarks<Item>("items", bookmarkIds, "created_at, id");
+}
+
+// Tables included in a full database dump, in restore order
+export const DUMP_TABLES = [
+  "authors",
+  "bookmarks",
+  "bookmark_links",
+  "bookmark_media",
+  "referenced_tweets",
+  "thread_tweets",
+  "bookmark_sources",
+  "topics",
+  "bookmark_topics",
+  "items",
+] as const;
+
+export type DumpTable = (typeof DUMP_TABLES)[number];
+
+// Every row of a table, in insertion order. Sightings are recorded in
+// whatever order syncs saw bookmarks, so they're listed by bookmark instead.
+export async function getAllRows<T>(table: DumpTable): Promise<T[]> {
+  const db = getDb();
+  const order = table === "bookmark_sources" ? "bookmark_id, source" : "rowid";
+  const result = await db.execute(`SELECT * FROM ${table} ORDER BY ${order}`);
+  return result.rows.map((row) => rowToObject<T>(row));
+}
+
+// Put back state that upsertBookmark doesn't carry, when restoring a dump.
+// `embedding` is a JSON array, as dumped
+export async function restoreBookmarkState(
+  bookmarkId: number,
+  state: Pick<Bookmark, "removed_at" | "thread_synced_at"> & {
+    embedding: {
+      vector: string;
+      model: string;
+      dim: number;
+      hash: string | null;
+      synced_at: string | null;
+      thread_synced_at: string | null;
+    } | null;
+    // When each source last saw the bookmark
+    sources: { source: string; seen_at: string }[];
+  }
+): Promise<void> {
+  const db = getDb();
+  const { embedding } = state;
+  await db.batch(
+    [
+      {
+        sql: `UPDATE bookmarks SET removed_at = ?, thread_synced_at = ?
+              ${embedding ? `, embedding = vector32(?), embedding_model = ?, embedding_dim = ?, embedding_hash = ?,
+                embedding_synced_at = ?, embedding_thread_synced_at = ?` : ""}
+              WHERE id = ?`,
+        args: [
+          state.removed_at,
+          state.thread_synced_at,
+          ...(embedding
+            ? [
+                embedding.vector,
+                embedding.model,
+                embedding.dim,
+                embedding.hash,
+                embedding.synced_at,
+                embedding.thread_synced_at,
+              ]
+            : []),
+          bookmarkId,
+        ],
+      },
+      ...state.sources.map(({ source, seen_at }) => ({
+        sql: `INSERT INTO bookmark_sources (bookmark_id, source, seen_at) VALUES (?, ?, ?)
+              ON CONFLICT(bookmark_id, source) DO UPDATE SET seen_at = MAX(seen_at, excluded.seen_at)`,
+        args: [bookmarkId, source, seen_at],
+      })),
+    ],
+    "write"
+  );
+}
+
+// Bookmarks that may belong to a self-thread and haven't been checked for the
+// rest of it: thread openers, and replies to the author's own tweets
+const THREAD_CANDIDATE_SQL = `b.conversation_id IS NOT NULL AND b.thread_synced_at IS NULL
+  AND (b.conversation_id = b.tweet_id OR EXISTS (
+    SELECT 1 FROM referenced_tweets r
+    WHERE r.bookmark_id = b.id AND r.type = 'replied_to' AND r.author_username = a.username
+  ))`;
+
+// Thread candidates, leaving out tweets created before `createdSince` (when set)
+export async function getThreadCandidates(
+  createdSince: string | null,
+  limit = 50
+): Promise<BookmarkWithAuthor[]> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT b.*, a.username, a.display_name
+          FROM bookmarks b
+          LEFT JOIN authors a ON b.author_id = a.id
+          WHERE ${THREAD_CANDIDATE_SQL} AND (? IS NULL OR b.created_at >= ?)
+          ORDER BY b.bookmarked_at DESC, b.feed_position ASC
+          LIMIT ?`,
+    args: [createdSince, createdSince, limit],
+  });
+  return result.rows.map((row) => rowToObject<BookmarkWithAuthor>(row));
+}
+
+// Thread candidates created before `createdBefore`
+export async function countThreadCandidates(createdBefore: string): Promise<number> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT COUNT(*) AS count
+          FROM bookmarks b
+          LEFT JOIN authors a ON b.author_id = a.id
+          WHERE ${THREAD_CANDIDATE_SQL} AND b.created_at < ?`,
+    args: [createdBefore],
+  });
+  return (result.rows[0]?.count as number) ?? 0;
+}
+
+// Store a reconstructed thread. The thread is part of the embedded document,
+// so a changed one gets the bookmark re-embedded.
+export async function replaceThreadTweets(
+  bookmarkId: number,
+  tweets: Omit<ThreadTweet, "id" | "bookmark_id">[],
+  syncedAt: string
+): Promise<void> {
+  const db = getDb();
+  await db.batch(
+    [
+      { sql: "DELETE FROM thread_tweets WHERE bookmark_id = ?", args: [bookmarkId] },
+      ...tweets.map((t) => ({
+        sql: `INSERT INTO thread_tweets (bookmark_id, position, tweet_id, content, created_at)
+              VALUES (?, ?, ?, ?, ?)`,
+        args: [bookmarkId, t.position, t.tweet_id, t.content, t.created_at],
+      })),
+      { sql: "UPDATE bookmarks SET thread_synced_at = ? WHERE id = ?", args: [syncedAt, bookmarkId] },
+    ],
+    "write"
+  );
+}
+
+// Flag bookmarks from `source` that a complete sync didn't see since `seenSince` as removed
+export async function markUnseenBookmarksRemoved(
+  source: string,
+  seenSince: string,
+  removedAt: string
+): Promise<number> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: `UPDATE bookmarks SET removed_at = ?
+          WHERE removed_at IS NULL AND id IN (
+            SELECT bookmark_id FROM bookmark_sources WHERE source = ? AND seen_at < ?
+          )`,
+    args: [removedAt, source, seenSince],
+  });
+  return result.rowsAffected;
+}
+
+// Record that `source` saw these stored bookmarks. A feed that flags the
+// bookmarks it no longer has as removed also brings back the ones it has again;
+// other sources leave the flag alone.
+export async function markBookmarksSeen(
+  source: string,
+  tweetIds: string[],
+  seenAt: string,
+  clearRemoved: boolean
+): Promise<void> {
+  if (tweetIds.length === 0) return;
+  const db = getDb();
+  const placeholders = tweetIds.map(() => "?").join(", ");
+  await db.batch(
+    [
+      {
+        sql: `INSERT INTO bookmark_sources (bookmark_id, source, seen_at)
+              SELECT id, ?, ? FROM bookmarks WHERE tweet_id IN (${placeholders})
+              ON CONFLICT(bookmark_id, source) DO UPDATE SET seen_at = excluded.seen_at`,
+        args: [source, seenAt, ...tweetIds],
+      },
+      ...(clearRemoved
+        ? [
+            {
+              sql: `UPDATE bookmarks SET removed_at = NULL
+                    WHERE removed_at IS NOT NULL AND tweet_id IN (${placeholders})`,
+              args: tweetIds,
+            },
+          ]
+        : []),
+    ],
+    "write"
+  );
+}
+
 export async function getBookmarkCount(): Promise<number> {
   const db = getDb();
   const result = await db.execute("SELECT COUNT(*) as count FROM bookmarks");
@@ -164,12 +720,13 @@ export async function getBookmarkCount(): Promise<number> {
 // Topics
 export async function createTopic(
   name: string,
-  description?: string
+  description?: string,
+  createdAt?: string
 ): Promise<number> {
   const db = getDb();
   const result = await db.execute({
-    sql: "INSERT INTO topics (name, description) VALUES (?, ?) RETURNING id",
-    args: [name, description ?? null],
+    sql: "INSERT INTO topics (name, description, created_at) VALUES (?, ?, COALESCE(?, CURRENT_TIMESTAMP)) RETURNING id",
+    args: [name, description ?? null, createdAt ?? null],
   });
   const row = result.rows[0];
   if (!row) throw new Error("Failed to create topic");
@@ -182,6 +739,43 @@ export async function getTopics(): Promise<Topic[]> {
   return result.rows.map((row) => rowToObject<Topic>(row));
 }
 
+export async function getTopicSummaries(): Promise<TopicSummary[]> {
+  const db = getDb();
+  const result = await db.execute(
+    `SELECT t.*, COUNT(bt.bookmark_id) AS bookmark_count
+     FROM topics t
+     LEFT JOIN bookmark_topics bt ON bt.topic_id = t.id
+     GROUP BY t.id
+     ORDER BY bookmark_count DESC, t.name`
+  );
+  return result.rows.map((row) => rowToObject<TopicSummary>(row));
+}
+
+// Topic names per bookmark, most confident first
+export async function getTopicNamesForBookmarks(
+  bookmarkIds: number[]
+): Promise<Map<number, string[]>> {
+  const grouped = new Map<number, string[]>();
+  if (bookmarkIds.length === 0) return grouped;
+
+  const db = getDb();
+  const result = await db.execute({
+    sql: `SELECT bt.bookmark_id, t.name
+          FROM bookmark_topics bt
+          INNER JOIN topics t ON t.id = bt.topic_id
+          WHERE bt.bookmark_id IN (${bookmarkIds.map(() => "?").join(", ")})
+          ORDER BY bt.bookmark_id, bt.confidence DESC`,
+    args: bookmarkIds,
+  });
+  for (const row of result.rows) {
+    const bookmarkId = row.bookmark_id as number;
+    const names = grouped.get(bookmarkId) ?? [];
+    names.push(row.name as string);
+    grouped.set(bookmarkId, names);
+  }
+  return grouped;
+}
+
 export async function getTopicWithBookmarks(
   topicId: number
 ): Promise<{ topic: Topic; bookmarks: BookmarkWithAuthor[] } | null> {
@@ -225,14 +819,14 @@ export async function linkBookmarkToTopic(
 
 // Items (tasks, ideas, resources)
 export async function createItem(
-  item: Omit<Item, "id" | "created_at">
+  item: Omit<Item, "id" | "created_at"> & { created_at?: string }
 ): Promise<number> {
   const db = getDb();
   const result = await db.execute({
-    sql: `INSERT INTO items (bookmark_id, type, title, description, status)
-          VALUES (?, ?, ?, ?, ?)
+    sql: `INSERT INTO items (bookmark_id, type, title, description, status, created_at)
+          VALUES (?, ?, ?, ?, ?, COALESCE(?, CURRENT_TIMESTAMP))
           RETURNING id`,
-    args: [item.bookmark_id, item.type, item.title, item.description ?? null, item.status],
+    args: [item.bookmark_id, item.type, item.title, item.description ?? null, item.status, item.created_at ?? null],
   });
   const row = result.rows[0];
   if (!row) throw new Error("Failed to create item");
@@ -257,6 +851,35 @@ export async function getItemsByStatus(status: string): Promise<Item[]> {
   return result.rows.map((row) => rowToObject<Item>(row));
 }
 
+export async function getItems(filter: ItemFilter = {}): Promise<Item[]> {
+  const db = getDb();
+  const conditions = ["1 = 1"];
+  const args: string[] = [];
+  if (filter.type) {
+    conditions.push("type = ?");
+    args.push(filter.type);
+  }
+  if (filter.status) {
+    conditions.push("status = ?");
+    args.push(filter.status);
+  }
+  const result = await db.execute({
+    sql: `SELECT * FROM items WHERE ${conditions.join(" AND ")} ORDER BY created_at DESC, id DESC`,
+    args,
+  });
+  return result.rows.map((row) => rowToObject<Item>(row));
+}
+
+export async function getItemById(id: number): Promise<Item | null> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM items WHERE id = ?",
+    args: [id],
+  });
+  const row = result.rows[0];
+  return row ? rowToObject<Item>(row) : null;
+}
+
 export async function updateItemStatus(id: number, status: string): Promise<void> {
   const db = getDb();
   await db.execute({
@@ -288,26 +911,126 @@ export async function getPendingTaskCount(): Promise<number> {
   return row.count as number;
 }
 
+// Saved searches
+export async function saveSearch(search: Omit<SavedSearch, "id" | "created_at">): Promise<number> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: `INSERT INTO saved_searches (name, query, mode)
+          VALUES (?, ?, ?)
+          ON CONFLICT(name) DO UPDATE SET query = excluded.query, mode = excluded.mode
+          RETURNING id`,
+    args: [search.name, search.query, search.mode],
+  });
+  const row = result.rows[0];
+  if (!row) throw new Error("Failed to save search");
+  return row.id as number;
+}
+
+export async function getSavedSearches(): Promise<SavedSearch[]> {
+  const db = getDb();
+  const result = await db.execute("SELECT * FROM saved_searches ORDER BY name");
+  return result.rows.map((row) => rowToObject<SavedSearch>(row));
+}
+
+export async function getSavedSearchById(id: number): Promise<SavedSearch | null> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM saved_searches WHERE id = ?",
+    args: [id],
+  });
+  const row = result.rows[0];
+  return row ? rowToObject<SavedSearch>(row) : null;
+}
+
+export async function deleteSavedSearch(id: number): Promise<boolean> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: "DELETE FROM saved_searches WHERE id = ?",
+    args: [id],
+  });
+  return result.rowsAffected > 0;
+}
+
 // Sync state
 export async function getSyncState(): Promise<SyncState> {
   const db = getDb();
   const result = await db.execute("SELECT * FROM sync_state WHERE id = 1");
   const row = result.rows[0];
   if (!row) {
-    return { last_sync_at: null, pagination_token: null };
+    return {
+      last_sync_at: null,
+      pagination_token: null,
+      backfill_started_at: null,
+      backfill_position: null,
+      expansions_backfill_pending: 0,
+    };
   }
   return rowToObject<SyncState>(row);
 }
 
 export async function updateSyncState(state: Partial<SyncState>): Promise<void> {
   const db = getDb();
+  // Only touch the columns the caller passes, so regular syncs don't drop a pending backfill
+  const columns = Object.keys(state) as (keyof SyncState)[];
+  if (columns.length === 0) return;
+
   await db.execute({
-    sql: `INSERT INTO sync_state (id, last_sync_at, pagination_token)
-          VALUES (1, ?, ?)
+    sql: `INSERT INTO sync_state (id, ${columns.join(", ")})
+          VALUES (1, ${columns.map(() => "?").join(", ")})
           ON CONFLICT(id) DO UPDATE SET
-            last_sync_at = COALESCE(excluded.last_sync_at, sync_state.last_sync_at),
-            pagination_token = excluded.pagination_token`,
-    args: [state.last_sync_at ?? null, state.pagination_token ?? null],
+            ${columns.map((c) => `${c} = excluded.${c}`).join(", ")}`,
+    args: columns.map((c) => state[c] ?? null),
+  });
+}
+
+// Embedding model state
+export async function getEmbeddingState(): Promise<EmbeddingState> {
+  const db = getDb();
+  const result = await db.execute("SELECT * FROM embedding_state WHERE id = 1");
+  const row = result.rows[0];
+  if (!row) throw new Error("Embedding state is missing; run `migrate`");
+  return rowToObject<EmbeddingState>(row);
+}
+
+export async function updateEmbeddingState(state: Partial<EmbeddingState>): Promise<void> {
+  const db = getDb();
+  const columns = Object.keys(state) as (keyof EmbeddingState)[];
+  if (columns.length === 0) return;
+
+  await db.execute({
+    sql: `UPDATE embedding_state SET ${columns.map((c) => `${c} = ?`).join(", ")} WHERE id = 1`,
+    args: columns.map((c) => state[c] ?? null),
+  });
+}
+
+// Rate limits
+export async function getRateLimit(endpoint: string): Promise<RateLimit | null> {
+  const db = getDb();
+  const result = await db.execute({
+    sql: "SELECT * FROM rate_limits WHERE endpoint = ?",
+    args: [endpoint],
+  });
+  const row = result.rows[0];
+  return row ? rowToObject<RateLimit>(row) : null;
+}
+
+export async function saveRateLimit(rateLimit: RateLimit): Promise<void> {
+  const db = getDb();
+  await db.execute({
+    sql: `INSERT INTO rate_limits (endpoint, limit_total, remaining, reset_at, updated_at)
+          VALUES (?, ?, ?, ?, ?)
+          ON CONFLICT(endpoint) DO UPDATE SET
+            limit_total = excluded.limit_total,
+            remaining = excluded.remaining,
+            reset_at = excluded.reset_at,
+            updated_at = excluded.updated_at`,
+    args: [
+      rateLimit.endpoint,
+      rateLimit.limit_total,
+      rateLimit.remaining,
+      rateLimit.reset_at,
+      rateLimit.updated_at,
+    ],
   });
 }
 
@@ -341,7 +1064,7 @@ export async function getUnanalyzedBookmarks(limit = 50): Promise<BookmarkWithAu
           FROM bookmarks b
           LEFT JOIN authors a ON b.author_id = a.id
           WHERE b.id NOT IN (SELECT DISTINCT bookmark_id FROM bookmark_topics)
-          ORDER BY b.bookmarked_at DESC
+          ORDER BY b.bookmarked_at DESC, b.feed_position ASC
           LIMIT ?`,
     args: [limit],
   });
@@ -358,7 +1081,7 @@ export async function clearTopicsForBookmark(bookmarkId: number): Promise<void>
 }
 
 // Get or create topic by name
-export async function getOrCreateTopic(name: string, description?: string): Promise<number> {
+export async function getOrCreateTopic(name: string, description?: string, createdAt?: string): Promise<number> {
   const db = getDb();
   const existing = await db.execute({
     sql: "SELECT id FROM topics WHERE name = ?",
@@ -368,5 +1091,5 @@ export async function getOrCreateTopic(name: string, description?: string): Prom
   if (row) {
     return row.id as number;
   }
-  return createTopic(name, description);
+  return createTopic(name, description, createdAt);
 }
@@ -0,0 +1,111 @@
+import {
+  getBookmarksWithAuthorDetails,
+  getItemsForBookmarks,
+  getLinksForBookmarks,
+  getMediaForBookmarks,
+  getReferencedTweetsForBookmarks,
+  getThreadTweetsForBookmarks,
+  getTopicNamesForBookmarks,
+  type BookmarkWithAuthor,
+  type BookmarkLink,
+  type BookmarkMedia,
+  type Item,
+  type ReferencedTweet,
+} from "../db/queries";
+
+// A bookmark with everything known about it, in a flat shape shared by all
+// export formats. The core fields match the JSON/NDJSON file source
+// (src/sources/file.ts), so exports can be imported again.
+export interface ExportedBookmark {
+  id: string;
+  text: string;
+  created_at: string;
+  url: string;
+  author: {
+    id: string;
+    username: string;
+    display_name: string | null;
+    avatar_url: string | null;
+  };
+  like_count: number;
+  retweet_count: number;
+  conversation_id: string | null;
+  source: string;
+  bookmarked_at: string;
+  removed_at: string | null;
+  links: Omit<BookmarkLink, "id" | "bookmark_id">[];
+  media: Omit<BookmarkMedia, "id" | "bookmark_id">[];
+  referenced: Omit<ReferencedTweet, "id" | "bookmark_id">[];
+  thread: string[]; // Self-replies after the bookmarked tweet, in order
+  topics: string[];
+  items: Pick<Item, "type" | "title" | "description" | "status">[];
+}
+
+const EXPORT_BATCH_SIZE = 500;
+
+// Permalink for a bookmark; tweets without a known author still resolve via /i/
+export function bookmarkUrl(bookmark: Pick<BookmarkWithAuthor, "tweet_id" | "username" | "url">): string {
+  if (bookmark.url) return bookmark.url;
+  const user = bookmark.username && bookmark.username !== "unknown" ? bookmark.username : "i";
+  return `https://x.com/${user}/status/${bookmark.tweet_id}`;
+}
+
+function strip<T extends { id: number; bookmark_id: number }>(rows: T[] | undefined): Omit<T, "id" | "bookmark_id">[] {
+  return (rows ?? []).map(({ id, bookmark_id, ...rest }) => rest);
+}
+
+// Load every bookmark (newest first) with its links, media, threads, topics and items
+export async function loadExportBookmarks(): Promise<ExportedBookmark[]> {
+  const exported: ExportedBookmark[] = [];
+
+  for (let offset = 0; ; offset += EXPORT_BATCH_SIZE) {
+    const bookmarks = await getBookmarksWithAuthorDetails(EXPORT_BATCH_SIZE, offset);
+    if (bookmarks.length === 0) break;
+
+    const ids = bookmarks.map((b) => b.id);
+    const [links, media, referenced, threads, topics, items] = await Promise.all([
+      getLinksForBookmarks(ids),
+      getMediaForBookmarks(ids),
+      getReferencedTweetsForBookmarks(ids),
+      getThreadTweetsForBookmarks(ids),
+      getTopicNamesForBookmarks(ids),
+      getItemsForBookmarks(ids),
+    ]);
+
+    for (const bookmark of bookmarks) {
+      exported.push({
+        id: bookmark.tweet_id,
+        text: bookmark.content,
+        created_at: bookmark.created_at,
+        url: bookmarkUrl(bookmark),
+        author: {
+          id: bookmark.author_twitter_id,
+          username: bookmark.username,
+          display_name: bookmark.display_name,
+          avatar_url: bookmark.avatar_url,
+        },
+        like_count: bookmark.like_count,
+        retweet_count: bookmark.retweet_count,
+        conversation_id: bookmark.conversation_id,
+        source: bookmark.source,
+        bookmarked_at: bookmark.bookmarked_at,
+        removed_at: bookmark.removed_at,
+        links: strip(links.get(bookmark.id)),
+        media: strip(media.get(bookmark.id)),
+        referenced: strip(referenced.get(bookmark.id)),
+        thread: (threads.get(bookmark.id) ?? []).map((t) => t.content),
+        topics: topics.get(bookmark.id) ?? [],
+        items: (items.get(bookmark.id) ?? []).map(({ type, title, description, status }) => ({
+          type,
+          title,
+          description,
+          status,
+        })),
+      });
+    }
+
+    if (bookmarks.length < EXPORT_BATCH_SIZE) break;
+  }
+
+  return exported;
+}
@@ -0,0 +1,305 @@
+import { mkdir } from "fs/promises";
+import { join } from "path";
+import { DEFAULT_EMBEDDING_MODEL, decodeVector } from "../analysis/embeddings";
+import {
+  createItem,
+  DUMP_TABLES,
+  getAllRows,
+  getEmbeddingState,
+  getItemsForBookmarks,
+  getOrCreateTopic,
+  linkBookmarkToTopic,
+  replaceBookmarkLinks,
+  replaceBookmarkMedia,
+  replaceReferencedTweets,
+  replaceThreadTweets,
+  restoreBookmarkState,
+  upsertAuthor,
+  upsertBookmark,
+  type Author,
+  type Bookmark,
+  type BookmarkLink,
+  type BookmarkMedia,
+  type DumpTable,
+  type Item,
+  type ReferencedTweet,
+  type ThreadTweet,
+  type Topic,
+} from "../db/queries";
+
+// Full database dumps, for moving between machines or between a local file
+// and Turso. Rows are dumped as stored, ids included; restoring maps them onto
+// whatever ids the target database hands out, so a dump can be restored into
+// a database that already has bookmarks.
+//
+//   JSON    { "version": 1, "exported_at": "...", "authors": [...], ... }
+//   NDJSON  { "table": "authors", "row": {...} } per line
+//   CSV     one <table>.csv per table (without embeddings), export only
+
+export const DUMP_VERSION = 1;
+
+export interface DumpTables {
+  authors: Author[];
+  // The embedding's model and document hash are missing from dumps made
+  // before they were recorded
+  bookmarks: (Bookmark & {
+    embedding: string | null;
+    embedding_model?: string | null;
+    embedding_dim?: number | null;
+    embedding_hash?: string | null;
+    embedding_synced_at?: string | null;
+    embedding_thread_synced_at?: string | null;
+  })[];
+  bookmark_links: BookmarkLink[];
+  bookmark_media: BookmarkMedia[];
+  referenced_tweets: ReferencedTweet[];
+  thread_tweets: ThreadTweet[];
+  // Missing from dumps made before sources were tracked
+  bookmark_sources: { bookmark_id: number; source: string; seen_at: string }[];
+  topics: Topic[];
+  bookmark_topics: { bookmark_id: number; topic_id: number; confidence: number }[];
+  items: Item[];
+}
+
+export interface DatabaseDump extends DumpTables {
+  version: number;
+  exported_at: string;
+}
+
+export type RestoreResult = Record<"authors" | "bookmarks" | "topics" | "bookmark_topics" | "items", number>;
+
+export async function dumpDatabase(): Promise<DatabaseDump> {
+  const tables = {} as Record<DumpTable, unknown[]>;
+  for (const table of DUMP_TABLES) {
+    tables[table] = await getAllRows(table);
+  }
+  // cluster_id is tied to the clustering run that produced it; topics carry the
+  // result. Embeddings are stored as F32 blobs but dumped as JSON arrays.
+  const bookmarks = (tables.bookmarks as (Bookmark & { embedding: unknown; cluster_id?: unknown })[]).map(
+    ({ cluster_id, embedding, ...bookmark }) => {
+      const vector = decodeVector(embedding);
+      return { ...bookmark, embedding: vector ? JSON.stringify(vector) : null };
+    }
+  );
+  return {
+    version: DUMP_VERSION,
+    exported_at: new Date().toISOString(),
+    ...(tables as unknown as DumpTables),
+    bookmarks,
+  };
+}
+
+export function countDumpRows(dump: DumpTables): number {
+  return DUMP_TABLES.reduce((sum, table) => sum + dump[table].length, 0);
+}
+
+export function formatDumpJson(dump: DatabaseDump): string {
+  return `${JSON.stringify(dump, null, 2)}\n`;
+}
+
+export function formatDumpNdjson(dump: DatabaseDump): string {
+  return DUMP_TABLES.flatMap((table) =>
+    (dump[table] as unknown[]).map((row) => `${JSON.stringify({ table, row })}\n`)
+  ).join("");
+}
+
+function csvCell(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function formatCsv(rows: Record<string, unknown>[]): string {
+  const first = rows[0];
+  if (!first) return "";
+  const columns = Object.keys(first);
+  const lines = [columns.join(","), ...rows.map((row) => columns.map((c) => csvCell(row[c])).join(","))];
+  return `${lines.join("\n")}\n`;
+}
+
+// Write one CSV per table into `dir`; embeddings (and which model made them)
+// are left out since they're unreadable in a spreadsheet and can be regenerated
+export async function writeDumpCsv(dir: string, dump: DatabaseDump): Promise<string[]> {
+  await mkdir(dir, { recursive: true });
+  const files: string[] = [];
+  for (const table of DUMP_TABLES) {
+    const rows = table === "bookmarks"
+      ? dump.bookmarks.map(
+          ({
+            embedding,
+            embedding_model,
+            embedding_dim,
+            embedding_hash,
+            embedding_synced_at,
+            embedding_thread_synced_at,
+            ...bookmark
+          }) => bookmark
+        )
+      : dump[table];
+    const path = join(dir, `${table}.csv`);
+    await Bun.write(path, formatCsv(rows as unknown as Record<string, unknown>[]));
+    files.push(path);
+  }
+  return files;
+}
+
+function emptyTables(): DumpTables {
+  return Object.fromEntries(DUMP_TABLES.map((table) => [table, []])) as unknown as DumpTables;
+}
+
+// Parse a JSON or NDJSON dump
+export function parseDump(text: string): DumpTables {
+  const trimmed = text.trim();
+  let document: Partial<DatabaseDump> | null = null;
+  try {
+    document = JSON.parse(trimmed) as Partial<DatabaseDump>;
+  } catch {
+    // Not a single JSON document; read it as NDJSON below
+  }
+
+  if (document && !("table" in document)) {
+    const dump = document;
+    if (typeof dump.version !== "number") {
+      throw new Error("Not a database dump: missing version");
+    }
+    if (dump.version > DUMP_VERSION) {
+      throw new Error(`Dump version ${dump.version} is newer than this version supports (${DUMP_VERSION})`);
+    }
+    const tables = emptyTables();
+    for (const table of DUMP_TABLES) {
+      (tables[table] as unknown[]) = (dump[table] as unknown[] | undefined) ?? [];
+    }
+    return tables;
+  }
+
+  const tables = emptyTables();
+  const lines = trimmed.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]?.trim();
+    if (!line) continue;
+    let record: { table?: string; row?: unknown };
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+    if (!DUMP_TABLES.includes(record.table as DumpTable) || typeof record.row !== "object") {
+      throw new Error(`Invalid dump record on line ${i + 1}`);
+    }
+    (tables[record.table as DumpTable] as unknown[]).push(record.row);
+  }
+  return tables;
+}
+
+function groupByBookmark<T extends { bookmark_id: number }>(rows: T[]): Map<number, Omit<T, "id" | "bookmark_id">[]> {
+  const grouped = new Map<number, Omit<T, "id" | "bookmark_id">[]>();
+  for (const { id, bookmark_id, ...rest } of rows as (T & { id?: number })[]) {
+    const list = grouped.get(bookmark_id) ?? [];
+    list.push(rest as Omit<T, "id" | "bookmark_id">);
+    grouped.set(bookmark_id, list);
+  }
+  return grouped;
+}
+
+// Restore a dump through the regular upserts. Safe to run more than once:
+// bookmarks and authors are keyed by their Twitter ids, topics by name, and
+// items already attached to a bookmark aren't added twice.
+export async function restoreDump(dump: DumpTables): Promise<RestoreResult> {
+  const result: RestoreResult = { authors: 0, bookmarks: 0, topics: 0, bookmark_topics: 0, items: 0 };
+
+  const authorIds = new Map<number, number>();
+  for (const { id, ...author } of dump.authors) {
+    authorIds.set(id, await upsertAuthor(author));
+    result.authors++;
+  }
+
+  const links = groupByBookmark(dump.bookmark_links);
+  const media = groupByBookmark(dump.bookmark_media);
+  const referenced = groupByBookmark(dump.referenced_tweets);
+  const threads = groupByBookmark(dump.thread_tweets);
+  const sources = groupByBookmark(dump.bookmark_sources);
+
+  // Vectors from another model can't be searched alongside ours; those get re-embedded
+  const { model } = await getEmbeddingState();
+  const bookmarkIds = new Map<number, number>();
+  for (const {
+    id,
+    embedding,
+    embedding_model,
+    embedding_dim,
+    embedding_hash,
+    embedding_synced_at,
+    embedding_thread_synced_at,
+    removed_at,
+    thread_synced_at,
+    ...bookmark
+  } of dump.bookmarks) {
+    const authorId = authorIds.get(bookmark.author_id);
+    if (authorId === undefined) {
+      throw new Error(`Bookmark ${bookmark.tweet_id} references missing author ${bookmark.author_id}`);
+    }
+    const newId = await upsertBookmark({ ...bookmark, author_id: authorId });
+    bookmarkIds.set(id, newId);
+
+    await replaceBookmarkLinks(newId, links.get(id) ?? []);
+    await replaceBookmarkMedia(newId, media.get(id) ?? []);
+    await replaceReferencedTweets(newId, referenced.get(id) ?? []);
+    const thread = threads.get(id);
+    if (thread) await replaceThreadTweets(newId, thread, thread_synced_at ?? new Date().toISOString());
+    const sameModel = (embedding_model ?? DEFAULT_EMBEDDING_MODEL.name) === model;
+    await restoreBookmarkState(newId, {
+      removed_at,
+      thread_synced_at,
+      embedding:
+        embedding && sameModel
+          ? {
+              vector: embedding,
+              model,
+              dim: (JSON.parse(embedding) as number[]).length,
+              hash: embedding_hash ?? null,
+              synced_at: embedding_synced_at ?? null,
+              thread_synced_at: embedding_thread_synced_at ?? null,
+            }
+          : null,
+      // Older dumps: seen by the source it came from, as the migration assumes
+      sources: sources.get(id) ?? [{ source: bookmark.source, seen_at: bookmark.synced_at }],
+    });
+    result.bookmarks++;
+  }
+
+  const topicIds = new Map<number, number>();
+  for (const topic of dump.topics) {
+    topicIds.set(
+      topic.id,
+      await getOrCreateTopic(topic.name, topic.description ?? undefined, topic.created_at ?? undefined)
+    );
+    result.topics++;
+  }
+
+  for (const link of dump.bookmark_topics) {
+    const bookmarkId = bookmarkIds.get(link.bookmark_id);
+    const topicId = topicIds.get(link.topic_id);
+    if (bookmarkId === undefined || topicId === undefined) continue;
+    await linkBookmarkToTopic(bookmarkId, topicId, link.confidence);
+    result.bookmark_topics++;
+  }
+
+  const existingItems = await getItemsForBookmarks([...bookmarkIds.values()]);
+  for (const item of dump.items) {
+    const bookmarkId = bookmarkIds.get(item.bookmark_id);
+    if (bookmarkId === undefined) continue;
+    const existing = existingItems.get(bookmarkId) ?? [];
+    if (existing.some((e) => e.type === item.type && e.title === item.title)) continue;
+    await createItem({
+      bookmark_id: bookmarkId,
+      type: item.type,
+      title: item.title,
+      description: item.description,
+      status: item.status,
+      created_at: item.created_at,
+    });
+    result.items++;
+  }
+
+  return result;
+}
@@ -0,0 +1,160 @@
+import {
+  getSavedSearchById,
+  getTopicWithBookmarks,
+  type BookmarkWithAuthor,
+} from "../db/queries";
+import { runSearch } from "../analysis/search";
+import { bookmarkUrl } from "./bookmarks";
+
+// Feeds (Atom, RSS) and Netscape bookmark files for a topic or a saved search,
+// so a topic can be followed in a feed reader or imported into a browser.
+
+export type FeedFormat = "atom" | "rss" | "html";
+
+export const FEED_FORMATS: FeedFormat[] = ["atom", "rss", "html"];
+
+export const FEED_CONTENT_TYPES: Record<FeedFormat, string> = {
+  atom: "application/atom+xml; charset=utf-8",
+  rss: "application/rss+xml; charset=utf-8",
+  html: "text/html; charset=utf-8",
+};
+
+export interface Feed {
+  key: string; // Stable identity, e.g. "topic:3"
+  title: string;
+  description: string | null;
+  bookmarks: BookmarkWithAuthor[];
+}
+
+const SAVED_SEARCH_FEED_LIMIT = 50;
+const TITLE_LENGTH = 80;
+
+export async function loadTopicFeed(topicId: number): Promise<Feed | null> {
+  const result = await getTopicWithBookmarks(topicId);
+  if (!result) return null;
+  return {
+    key: `topic:${result.topic.id}`,
+    title: result.topic.name,
+    description: result.topic.description,
+    bookmarks: result.bookmarks,
+  };
+}
+
+export async function loadSavedSearchFeed(searchId: number): Promise<Feed | null> {
+  const search = await getSavedSearchById(searchId);
+  if (!search) return null;
+  const results = await runSearch(search.query, search.mode, SAVED_SEARCH_FEED_LIMIT);
+  return {
+    key: `search:${search.id}`,
+    title: search.name,
+    description: `Bookmarks matching "${search.query}"`,
+    bookmarks: results.map((r) => r.bookmark),
+  };
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function entryTitle(bookmark: BookmarkWithAuthor): string {
+  const text = bookmark.content.replace(/\s+/g, " ").trim();
+  const short = text.length > TITLE_LENGTH ? `${text.slice(0, TITLE_LENGTH - 1)}…` : text;
+  return `@${bookmark.username}: ${short}`;
+}
+
+// Newest bookmark time, so an unchanged feed renders byte-for-byte the same
+function feedUpdated(feed: Feed): string {
+  const times = feed.bookmarks.map((b) => b.bookmarked_at).sort();
+  return new Date(times[times.length - 1] ?? 0).toISOString();
+}
+
+export function formatAtom(feed: Feed, selfUrl?: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<feed xmlns="http://www.w3.org/2005/Atom">',
+    `  <id>urn:twitter-bookmark-indexer:${escapeXml(feed.key)}</id>`,
+    `  <title>${escapeXml(feed.title)}</title>`,
+  ];
+  if (feed.description) lines.push(`  <subtitle>${escapeXml(feed.description)}</subtitle>`);
+  if (selfUrl) lines.push(`  <link rel="self" href="${escapeXml(selfUrl)}"/>`);
+  lines.push(`  <updated>${feedUpdated(feed)}</updated>`);
+
+  for (const bookmark of feed.bookmarks) {
+    const url = escapeXml(bookmarkUrl(bookmark));
+    lines.push(
+      "  <entry>",
+      `    <id>${url}</id>`,
+      `    <title>${escapeXml(entryTitle(bookmark))}</title>`,
+      `    <link href="${url}"/>`,
+      `    <author><name>${escapeXml(bookmark.display_name ?? bookmark.username)}</name></author>`,
+      `    <published>${new Date(bookmark.created_at).toISOString()}</published>`,
+      `    <updated>${new Date(bookmark.bookmarked_at).toISOString()}</updated>`,
+      `    <content type="text">${escapeXml(bookmark.content)}</content>`,
+      "  </entry>"
+    );
+  }
+
+  lines.push("</feed>");
+  return `${lines.join("\n")}\n`;
+}
+
+export function formatRss(feed: Feed, selfUrl?: string): string {
+  const lines = [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    '<rss version="2.0">',
+    "  <channel>",
+    `    <title>${escapeXml(feed.title)}</title>`,
+    `    <description>${escapeXml(feed.description ?? feed.title)}</description>`,
+  ];
+  if (selfUrl) lines.push(`    <link>${escapeXml(selfUrl)}</link>`);
+  lines.push(`    <lastBuildDate>${new Date(feedUpdated(feed)).toUTCString()}</lastBuildDate>`);
+
+  for (const bookmark of feed.bookmarks) {
+    const url = escapeXml(bookmarkUrl(bookmark));
+    lines.push(
+      "    <item>",
+      `      <title>${escapeXml(entryTitle(bookmark))}</title>`,
+      `      <link>${url}</link>`,
+      `      <guid isPermaLink="true">${url}</guid>`,
+      `      <pubDate>${new Date(bookmark.created_at).toUTCString()}</pubDate>`,
+      `      <description>${escapeXml(bookmark.content)}</description>`,
+      "    </item>"
+    );
+  }
+
+  lines.push("  </channel>", "</rss>");
+  return `${lines.join("\n")}\n`;
+}
+
+// The Netscape bookmark file format every browser imports, with the feed as one folder
+export function formatNetscapeBookmarks(feed: Feed): string {
+  const seconds = (iso: string) => Math.floor(new Date(iso).getTime() / 1000);
+  const lines = [
+    "<!DOCTYPE NETSCAPE-Bookmark-file-1>",
+    '<META HTTP-EQUIV="Content-Type" CONTENT="text/html; charset=UTF-8">',
+    "<TITLE>Bookmarks</TITLE>",
+    "<H1>Bookmarks</H1>",
+    "<DL><p>",
+    `    <DT><H3 ADD_DATE="${seconds(feedUpdated(feed))}">${escapeXml(feed.title)}</H3>`,
+    "    <DL><p>",
+  ];
+  for (const bookmark of feed.bookmarks) {
+    lines.push(
+      `        <DT><A HREF="${escapeXml(bookmarkUrl(bookmark))}" ADD_DATE="${seconds(bookmark.bookmarked_at)}">` +
+        `${escapeXml(entryTitle(bookmark))}</A>`,
+      `        <DD>${escapeXml(bookmark.content.replace(/\s+/g, " "))}`
+    );
+  }
+  lines.push("    </DL><p>", "</DL><p>");
+  return `${lines.join("\n")}\n`;
+}
+
+export function formatFeed(feed: Feed, format: FeedFormat, selfUrl?: string): string {
+  if (format === "atom") return formatAtom(feed, selfUrl);
+  if (format === "rss") return formatRss(feed, selfUrl);
+  return formatNetscapeBookmarks(feed);
+}
@@ -0,0 +1,42 @@
+import { loadExportBookmarks } from "./bookmarks";
+import { formatJson, formatNdjson } from "./json";
+
+export { bookmarkUrl, loadExportBookmarks, type ExportedBookmark } from "./bookmarks";
+export { formatJson, formatNdjson } from "./json";
+export { exportMarkdownVault, type MarkdownExportResult } from "./markdown";
+export { buildSite, exportSite, type SearchIndexEntry, type SiteExportResult } from "./site";
+export {
+  FEED_CONTENT_TYPES,
+  FEED_FORMATS,
+  formatFeed,
+  loadSavedSearchFeed,
+  loadTopicFeed,
+  type Feed,
+  type FeedFormat,
+} from "./feeds";
+export {
+  countDumpRows,
+  dumpDatabase,
+  formatDumpJson,
+  formatDumpNdjson,
+  parseDump,
+  restoreDump,
+  writeDumpCsv,
+  type DatabaseDump,
+  type RestoreResult,
+} from "./dump";
+
+export type ExportFormat = "json" | "ndjson";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["json", "ndjson"];
+
+// Formats written as a directory of files rather than a single document
+export type DirectoryExportFormat = "markdown" | "site";
+
+export const DIRECTORY_EXPORT_FORMATS: DirectoryExportFormat[] = ["markdown", "site"];
+
+export async function exportBookmarks(format: ExportFormat): Promise<{ count: number; output: string }> {
+  const bookmarks = await loadExportBookmarks();
+  const output = format === "ndjson" ? formatNdjson(bookmarks) : formatJson(bookmarks);
+  return { count: bookmarks.length, output };
+}
@@ -0,0 +1,10 @@
+import type { ExportedBookmark } from "./bookmarks";
+
+export function formatJson(bookmarks: ExportedBookmark[]): string {
+  return `${JSON.stringify(bookmarks, null, 2)}\n`;
+}
+
+// One bookmark per line, for streaming into other tools
+export function formatNdjson(bookmarks: ExportedBookmark[]): string {
+  return bookmarks.map((b) => `${JSON.stringify(b)}\n`).join("");
+}
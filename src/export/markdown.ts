@@ -0,0 +1,219 @@
+import { mkdir } from "fs/promises";
+import { join } from "path";
+import { getTopicSummaries, getTopicWithBookmarks, type BookmarkWithAuthor } from "../db/queries";
+import { loadExportBookmarks, type ExportedBookmark } from "./bookmarks";
+
+// Obsidian-style vault export: one note per bookmark under bookmarks/ and one
+// index note per topic under topics/. Each note has YAML front-matter and a
+// managed block between marker comments. Re-exports rewrite only our
+// front-matter keys and the managed block, so anything written around them
+// (extra properties, a "## Notes" section) survives.
+
+export interface MarkdownExportResult {
+  written: number; // Notes created or changed
+  unchanged: number;
+  topics: number;
+}
+
+const BOOKMARKS_DIR = "bookmarks";
+const TOPICS_DIR = "topics";
+const BLOCK_START = "<!-- bookmark-indexer:start -->";
+const BLOCK_END = "<!-- bookmark-indexer:end -->";
+
+type FrontMatterValue = string | number | boolean | string[] | null;
+
+// Strip characters Obsidian doesn't allow in note names
+function safeName(name: string): string {
+  return name.replace(/[*"\\/<>:|?#^[\]]/g, "-").replace(/\s+/g, " ").trim() || "untitled";
+}
+
+export function bookmarkNoteName(bookmark: { username: string; tweet_id: string }): string {
+  return safeName(`${bookmark.username}-${bookmark.tweet_id}`);
+}
+
+export function topicNoteName(name: string): string {
+  return safeName(name);
+}
+
+// Rendered with its leading separator: " value" for scalars, a block list otherwise
+function yamlValue(value: FrontMatterValue): string {
+  if (value === null) return " null";
+  if (typeof value === "number" || typeof value === "boolean") return ` ${value}`;
+  if (Array.isArray(value)) {
+    return value.length === 0 ? " []" : `\n${value.map((v) => `  - ${JSON.stringify(v)}`).join("\n")}`;
+  }
+  // JSON strings are valid double-quoted YAML scalars
+  return ` ${JSON.stringify(value)}`;
+}
+
+function dateOnly(iso: string | null): string | null {
+  return iso ? iso.slice(0, 10) : null;
+}
+
+// Split front-matter into top-level entries (a key line plus its indented lines)
+function frontMatterEntries(yaml: string): { key: string; text: string }[] {
+  const entries: { key: string; text: string }[] = [];
+  for (const line of yaml.split("\n")) {
+    const key = line.match(/^([^\s#][^:]*):/)?.[1];
+    const last = entries[entries.length - 1];
+    if (key) {
+      entries.push({ key: key.trim(), text: line });
+    } else if (last && line.trim()) {
+      last.text += `\n${line}`;
+    }
+  }
+  return entries;
+}
+
+function splitNote(existing: string): { frontMatter: string; body: string } {
+  const match = existing.match(/^---\n([\s\S]*?)\n---\n?/);
+  if (!match) return { frontMatter: "", body: existing };
+  return { frontMatter: match[1] ?? "", body: existing.slice(match[0].length) };
+}
+
+// Merge freshly generated front-matter and managed block into an existing note
+export function mergeNote(
+  existing: string | null,
+  fields: Record<string, FrontMatterValue>,
+  block: string
+): string {
+  const { frontMatter, body } = splitNote(existing ?? "");
+  const render = (key: string) => `${key}:${yamlValue(fields[key] ?? null)}`;
+  // Keep the note's key order: refresh our keys in place, append any new ones
+  const existingEntries = frontMatterEntries(frontMatter);
+  const lines = existingEntries.map((entry) => (entry.key in fields ? render(entry.key) : entry.text));
+  const seen = new Set(existingEntries.map((entry) => entry.key));
+  lines.push(...Object.keys(fields).filter((key) => !seen.has(key)).map(render));
+  const managed = `${BLOCK_START}\n${block.trim()}\n${BLOCK_END}`;
+
+  let newBody: string;
+  const start = body.indexOf(BLOCK_START);
+  const end = body.indexOf(BLOCK_END);
+  if (existing === null) {
+    newBody = `${managed}\n`;
+  } else if (start !== -1 && end > start) {
+    newBody = body.slice(0, start) + managed + body.slice(end + BLOCK_END.length);
+  } else {
+    // Markers were removed by hand; put a fresh block on top of the user's text
+    newBody = `${managed}\n\n${body.replace(/^\n+/, "")}`;
+  }
+
+  return `---\n${lines.join("\n")}\n---\n${newBody}`;
+}
+
+function quote(text: string): string {
+  return text
+    .split("\n")
+    .map((line) => (line ? `> ${line}` : ">"))
+    .join("\n");
+}
+
+function bookmarkFields(bookmark: ExportedBookmark): Record<string, FrontMatterValue> {
+  return {
+    tweet_id: bookmark.id,
+    url: bookmark.url,
+    author: `@${bookmark.author.username}`,
+    author_name: bookmark.author.display_name,
+    created: dateOnly(bookmark.created_at),
+    bookmarked: dateOnly(bookmark.bookmarked_at),
+    likes: bookmark.like_count,
+    retweets: bookmark.retweet_count,
+    source: bookmark.source,
+    removed: dateOnly(bookmark.removed_at),
+    topics: bookmark.topics,
+    items: bookmark.items.map((item) => `${item.type}: ${item.title} (${item.status})`),
+  };
+}
+
+function bookmarkBlock(bookmark: ExportedBookmark): string {
+  const sections = [quote(bookmark.text)];
+
+  if (bookmark.thread.length > 0) {
+    sections.push(bookmark.thread.map(quote).join("\n\n"));
+  }
+  for (const ref of bookmark.referenced) {
+    if (ref.content) {
+      const who = ref.author_username ? `@${ref.author_username}` : "a tweet";
+      sections.push(`${ref.type === "quoted" ? "Quoting" : "Replying to"} ${who}:\n\n${quote(ref.content)}`);
+    }
+  }
+  if (bookmark.links.length > 0) {
+    sections.push(
+      ["**Links**", ...bookmark.links.map((l) => `- [${l.title ?? l.display_url ?? l.expanded_url}](${l.expanded_url})`)].join("\n")
+    );
+  }
+  const images = bookmark.media.filter((m) => m.url ?? m.preview_image_url);
+  if (images.length > 0) {
+    sections.push(images.map((m) => `![${m.alt_text ?? m.type}](${m.url ?? m.preview_image_url})`).join("\n"));
+  }
+  if (bookmark.topics.length > 0) {
+    sections.push(`**Topics:** ${bookmark.topics.map((t) => `[[${TOPICS_DIR}/${topicNoteName(t)}|${t}]]`).join(", ")}`);
+  }
+  if (bookmark.items.length > 0) {
+    sections.push(
+      [
+        "**Items**",
+        ...bookmark.items.map((item) => {
+          const box = item.status === "done" ? "[x]" : "[ ]";
+          const detail = item.description ? ` — ${item.description}` : "";
+          return `- ${box} ${item.type}: ${item.title}${detail}`;
+        }),
+      ].join("\n")
+    );
+  }
+
+  sections.push(`[Open original](${bookmark.url})`);
+  return sections.join("\n\n");
+}
+
+function topicBlock(bookmarks: BookmarkWithAuthor[]): string {
+  if (bookmarks.length === 0) return "_No bookmarks in this topic yet._";
+  return bookmarks
+    .map((b) => {
+      const snippet = b.content.replace(/\s+/g, " ").slice(0, 80).replace(/[[\]|]/g, " ");
+      return `- [[${BOOKMARKS_DIR}/${bookmarkNoteName(b)}|@${b.username}: ${snippet}]]`;
+    })
+    .join("\n");
+}
+
+// Write a note only if its content changed, so re-exports don't churn sync tools
+async function writeNote(path: string, build: (existing: string | null) => string): Promise<boolean> {
+  const file = Bun.file(path);
+  const existing = (await file.exists()) ? await file.text() : null;
+  const content = build(existing);
+  if (content === existing) return false;
+  await Bun.write(path, content);
+  return true;
+}
+
+export async function exportMarkdownVault(dir: string): Promise<MarkdownExportResult> {
+  await mkdir(join(dir, BOOKMARKS_DIR), { recursive: true });
+  await mkdir(join(dir, TOPICS_DIR), { recursive: true });
+  const result: MarkdownExportResult = { written: 0, unchanged: 0, topics: 0 };
+
+  const bookmarks = await loadExportBookmarks();
+  for (const bookmark of bookmarks) {
+    const name = bookmarkNoteName({ username: bookmark.author.username, tweet_id: bookmark.id });
+    const changed = await writeNote(join(dir, BOOKMARKS_DIR, `${name}.md`), (existing) =>
+      mergeNote(existing, bookmarkFields(bookmark), bookmarkBlock(bookmark))
+    );
+    result[changed ? "written" : "unchanged"]++;
+  }
+
+  for (const summary of await getTopicSummaries()) {
+    const topic = await getTopicWithBookmarks(summary.id);
+    if (!topic) continue;
+    const fields = {
+      topic: topic.topic.name,
+      description: topic.topic.description,
+      bookmark_count: topic.bookmarks.length,
+    };
+    const changed = await writeNote(join(dir, TOPICS_DIR, `${topicNoteName(topic.topic.name)}.md`), (existing) =>
+      mergeNote(existing, fields, topicBlock(topic.bookmarks))
+    );
+    result[changed ? "written" : "unchanged"]++;
+    result.topics++;
+  }
+
+  return result;
+}
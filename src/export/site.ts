@@ -0,0 +1,299 @@
+import { mkdir } from "fs/promises";
+import { dirname, join } from "path";
+import { getTopicSummaries, getTopicWithBookmarks } from "../db/queries";
+import { loadExportBookmarks, type ExportedBookmark } from "./bookmarks";
+
+// A static, offline HTML site for browsing the library: a topics index, a page
+// per topic and per author, a permalink per bookmark, and client-side search
+// over a prebuilt index. Output depends only on the database contents (no
+// build timestamps, stable ordering), so the same library renders
+// byte-for-byte the same site. All links are relative, so it works from
+// file:// as well as from any web server path.
+
+export interface SiteExportResult {
+  files: number;
+  bookmarks: number;
+  topics: number;
+  authors: number;
+}
+
+interface SiteTopic {
+  id: number;
+  name: string;
+  description: string | null;
+  page: string;
+  bookmarks: ExportedBookmark[];
+}
+
+// Entry in search-index.json; kept small since the whole index is loaded up front
+export interface SearchIndexEntry {
+  id: string;
+  page: string;
+  author: string;
+  text: string;
+  topics: string[];
+  date: string;
+}
+
+const SITE_TITLE = "Bookmarks";
+const SNIPPET_LENGTH = 160;
+
+const STYLE = `body { font: 16px/1.5 system-ui, sans-serif; max-width: 46rem; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+a { color: #0969da; text-decoration: none; }
+a:hover { text-decoration: underline; }
+header nav a { margin-right: 1rem; }
+input[type=search] { width: 100%; padding: .5rem; font-size: 1rem; box-sizing: border-box; }
+ul.bookmarks { list-style: none; padding: 0; }
+ul.bookmarks li { border-bottom: 1px solid #d0d7de; padding: .75rem 0; }
+.meta { color: #656d76; font-size: .875rem; }
+blockquote { margin: 0; white-space: pre-wrap; }
+.thread blockquote { border-left: 3px solid #d0d7de; padding-left: .75rem; margin-top: .75rem; }
+img { max-width: 100%; }
+`;
+
+// Substring search over every field; all words must match
+const SEARCH_SCRIPT = `(function () {
+  var input = document.getElementById("search");
+  var results = document.getElementById("search-results");
+  var root = document.body.getAttribute("data-root");
+  function escape(text) {
+    return text.replace(/[&<>"]/g, function (c) {
+      return { "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;" }[c];
+    });
+  }
+  input.addEventListener("input", function () {
+    var words = input.value.toLowerCase().split(/\\s+/).filter(Boolean);
+    if (words.length === 0) { results.innerHTML = ""; return; }
+    var matches = window.SEARCH_INDEX.filter(function (entry) {
+      var haystack = (entry.text + " @" + entry.author + " " + entry.topics.join(" ")).toLowerCase();
+      return words.every(function (word) { return haystack.indexOf(word) !== -1; });
+    }).slice(0, 50);
+    results.innerHTML = matches.length === 0 ? "<li>No matches</li>" : matches.map(function (entry) {
+      return '<li><a href="' + root + entry.page + '">@' + escape(entry.author) + "</a> " +
+        '<span class="meta">' + entry.date + "</span><br>" + escape(entry.text.slice(0, ${SNIPPET_LENGTH})) + "</li>";
+    }).join("");
+  });
+})();
+`;
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function slug(text: string): string {
+  return (
+    text
+      .toLowerCase()
+      .normalize("NFKD")
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-+|-+$/g, "") || "untitled"
+  );
+}
+
+// Tweet ids are already safe; other sources use URIs as ids
+function fileId(id: string): string {
+  return id.replace(/[^A-Za-z0-9_-]+/g, "-");
+}
+
+function bookmarkPage(bookmark: ExportedBookmark): string {
+  return `bookmarks/${fileId(bookmark.id)}.html`;
+}
+
+function authorPage(username: string): string {
+  return `authors/${fileId(username)}.html`;
+}
+
+function snippet(text: string): string {
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > SNIPPET_LENGTH ? `${flat.slice(0, SNIPPET_LENGTH - 1)}…` : flat;
+}
+
+// `root` is the relative path back to the site root from the page being rendered
+function layout(title: string, root: string, body: string, search = false): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title === SITE_TITLE ? title : `${title} · ${SITE_TITLE}`)}</title>
+<link rel="stylesheet" href="${root}assets/style.css">
+</head>
+<body data-root="${root}">
+<header><nav><a href="${root}index.html">Topics</a><a href="${root}authors/index.html">Authors</a></nav></header>
+<main>
+<h1>${escapeHtml(title)}</h1>
+${body}
+</main>
+${search ? `<script src="${root}search-index.js"></script>\n<script src="${root}assets/search.js"></script>\n` : ""}</body>
+</html>
+`;
+}
+
+function bookmarkList(bookmarks: ExportedBookmark[], root: string): string {
+  if (bookmarks.length === 0) return "<p>No bookmarks.</p>";
+  const items = bookmarks.map(
+    (b) =>
+      `<li><a href="${root}${authorPage(b.author.username)}">@${escapeHtml(b.author.username)}</a> ` +
+      `<span class="meta">${b.created_at.slice(0, 10)}</span><br>` +
+      `<a href="${root}${bookmarkPage(b)}">${escapeHtml(snippet(b.text))}</a></li>`
+  );
+  return `<ul class="bookmarks">\n${items.join("\n")}\n</ul>`;
+}
+
+function renderIndex(topics: SiteTopic[], unfiled: number): string {
+  const list = topics.map(
+    (t) => `<li><a href="${t.page}">${escapeHtml(t.name)}</a> <span class="meta">${t.bookmarks.length}</span></li>`
+  );
+  const body = [
+    '<input type="search" id="search" placeholder="Search bookmarks" autocomplete="off">',
+    '<ul class="bookmarks" id="search-results"></ul>',
+    "<h2>Topics</h2>",
+    topics.length > 0 ? `<ul>\n${list.join("\n")}\n</ul>` : "<p>No topics yet.</p>",
+    unfiled > 0 ? `<p class="meta">${unfiled} bookmarks aren't in any topic.</p>` : "",
+  ].filter(Boolean);
+  return layout(SITE_TITLE, "", body.join("\n"), true);
+}
+
+function renderTopic(topic: SiteTopic): string {
+  const description = topic.description ? `<p>${escapeHtml(topic.description)}</p>\n` : "";
+  return layout(topic.name, "../", description + bookmarkList(topic.bookmarks, "../"));
+}
+
+function renderAuthors(authors: [string, ExportedBookmark[]][]): string {
+  const list = authors.map(
+    ([username, bookmarks]) =>
+      `<li><a href="${fileId(username)}.html">@${escapeHtml(username)}</a> <span class="meta">${bookmarks.length}</span></li>`
+  );
+  return layout("Authors", "../", `<ul>\n${list.join("\n")}\n</ul>`);
+}
+
+function renderAuthor(username: string, bookmarks: ExportedBookmark[]): string {
+  const name = bookmarks[0]?.author.display_name;
+  const intro = name ? `<p>${escapeHtml(name)}</p>\n` : "";
+  return layout(`@${username}`, "../", intro + bookmarkList(bookmarks, "../"));
+}
+
+function renderBookmark(bookmark: ExportedBookmark, topics: SiteTopic[]): string {
+  const parts = [
+    `<p class="meta"><a href="../${authorPage(bookmark.author.username)}">@${escapeHtml(bookmark.author.username)}</a>` +
+      (bookmark.author.display_name ? ` (${escapeHtml(bookmark.author.display_name)})` : "") +
+      ` · ${bookmark.created_at.slice(0, 10)} · ${bookmark.like_count} likes · ${bookmark.retweet_count} retweets</p>`,
+    `<blockquote>${escapeHtml(bookmark.text)}</blockquote>`,
+  ];
+
+  if (bookmark.thread.length > 0) {
+    parts.push(
+      `<div class="thread">\n${bookmark.thread.map((t) => `<blockquote>${escapeHtml(t)}</blockquote>`).join("\n")}\n</div>`
+    );
+  }
+  for (const ref of bookmark.referenced) {
+    if (!ref.content) continue;
+    const who = ref.author_username ? `@${escapeHtml(ref.author_username)}` : "a tweet";
+    parts.push(
+      `<p class="meta">${ref.type === "quoted" ? "Quoting" : "Replying to"} ${who}</p>`,
+      `<blockquote>${escapeHtml(ref.content)}</blockquote>`
+    );
+  }
+  if (bookmark.links.length > 0) {
+    const links = bookmark.links.map(
+      (l) => `<li><a href="${escapeHtml(l.expanded_url)}">${escapeHtml(l.title ?? l.display_url ?? l.expanded_url)}</a></li>`
+    );
+    parts.push(`<h2>Links</h2>\n<ul>\n${links.join("\n")}\n</ul>`);
+  }
+  const images = bookmark.media.filter((m) => m.url ?? m.preview_image_url);
+  if (images.length > 0) {
+    parts.push(
+      images
+        .map((m) => `<img src="${escapeHtml((m.url ?? m.preview_image_url)!)}" alt="${escapeHtml(m.alt_text ?? "")}" loading="lazy">`)
+        .join("\n")
+    );
+  }
+  if (topics.length > 0) {
+    const links = topics.map((t) => `<a href="../${t.page}">${escapeHtml(t.name)}</a>`);
+    parts.push(`<p class="meta">Topics: ${links.join(", ")}</p>`);
+  }
+  parts.push(`<p><a href="${escapeHtml(bookmark.url)}">View original</a></p>`);
+
+  return layout(`@${bookmark.author.username}: ${snippet(bookmark.text).slice(0, 60)}`, "../", parts.join("\n"));
+}
+
+// Render the whole site as relative path -> file contents
+export async function buildSite(): Promise<Map<string, string>> {
+  const bookmarks = await loadExportBookmarks();
+  const byTweetId = new Map(bookmarks.map((b) => [b.id, b]));
+
+  const topics: SiteTopic[] = [];
+  for (const summary of await getTopicSummaries()) {
+    const result = await getTopicWithBookmarks(summary.id);
+    if (!result) continue;
+    topics.push({
+      id: summary.id,
+      name: summary.name,
+      description: summary.description,
+      page: `topics/${summary.id}-${slug(summary.name)}.html`,
+      bookmarks: result.bookmarks.flatMap((b) => byTweetId.get(b.tweet_id) ?? []),
+    });
+  }
+  const topicsByBookmark = new Map<string, SiteTopic[]>();
+  for (const topic of topics) {
+    for (const b of topic.bookmarks) {
+      topicsByBookmark.set(b.id, [...(topicsByBookmark.get(b.id) ?? []), topic]);
+    }
+  }
+
+  const byAuthor = new Map<string, ExportedBookmark[]>();
+  for (const b of bookmarks) {
+    byAuthor.set(b.author.username, [...(byAuthor.get(b.author.username) ?? []), b]);
+  }
+  const authors = [...byAuthor.entries()].sort(([a], [b]) => a.localeCompare(b));
+
+  const searchIndex: SearchIndexEntry[] = bookmarks.map((b) => ({
+    id: b.id,
+    page: bookmarkPage(b),
+    author: b.author.username,
+    text: [b.text, ...b.thread].join("\n\n"),
+    topics: (topicsByBookmark.get(b.id) ?? []).map((t) => t.name),
+    date: b.created_at.slice(0, 10),
+  }));
+
+  const files = new Map<string, string>();
+  files.set("assets/style.css", STYLE);
+  files.set("assets/search.js", SEARCH_SCRIPT);
+  files.set("search-index.json", `${JSON.stringify(searchIndex)}\n`);
+  // Browsers won't fetch() from file://, so the index is also shipped as a script
+  files.set("search-index.js", `window.SEARCH_INDEX = ${JSON.stringify(searchIndex)};\n`);
+  files.set("index.html", renderIndex(topics, bookmarks.filter((b) => !topicsByBookmark.has(b.id)).length));
+  for (const topic of topics) {
+    files.set(topic.page, renderTopic(topic));
+  }
+  files.set("authors/index.html", renderAuthors(authors));
+  for (const [username, authored] of authors) {
+    files.set(authorPage(username), renderAuthor(username, authored));
+  }
+  for (const bookmark of bookmarks) {
+    files.set(bookmarkPage(bookmark), renderBookmark(bookmark, topicsByBookmark.get(bookmark.id) ?? []));
+  }
+
+  return files;
+}
+
+export async function exportSite(dir: string): Promise<SiteExportResult> {
+  const files = await buildSite();
+  for (const [path, content] of files) {
+    const target = join(dir, path);
+    await mkdir(dirname(target), { recursive: true });
+    await Bun.write(target, content);
+  }
+
+  const count = (prefix: string) => [...files.keys()].filter((p) => p.startsWith(prefix)).length;
+  return {
+    files: files.size,
+    bookmarks: count("bookmarks/"),
+    topics: count("topics/"),
+    authors: count("authors/") - 1, // Minus the authors index
+  };
+}
@@ -1,6 +1,7 @@
 import React from "react";
 import { render } from "ink";
 import { App } from "./ui/App";
+import { runCli, usage } from "./cli";
 
 const LOGO = `
     \\
@@ -18,13 +19,19 @@ const LOGO = `
 `;
 
 async function main() {
+  // Any arguments mean a non-interactive subcommand
+  const args = process.argv.slice(2);
+  if (args.length > 0) {
+    process.exitCode = await runCli(args);
+    return;
+  }
+
   // Check if we're in a TTY (interactive terminal)
   if (!process.stdin.isTTY) {
     console.log(LOGO);
     console.log("Note: Run this in an interactive terminal for the full TUI experience.");
     console.log("");
-    console.log("Usage:");
-    console.log("  bun run start     Launch interactive TUI");
+    console.log(usage());
     console.log("");
     console.log("Environment variables needed:");
     console.log("  TWITTER_CLIENT_ID       Your Twitter OAuth 2.0 client ID");
@@ -33,6 +40,9 @@ async function main() {
     console.log("Optional:");
     console.log("  TURSO_DATABASE_URL      Remote Turso database URL");
     console.log("  TURSO_AUTH_TOKEN        Turso auth token");
+    console.log("  TWITTER_API_TIER        free, basic or pro (sets page size and pacing)");
+    console.log("  SYNC_INTERVAL_MINUTES   Daemon sync interval");
+    console.log("  BOOKMARKS_API_TOKEN     Bearer token required by `serve`");
     console.log("");
     console.log("Analysis runs locally using ML models - no API keys needed!");
     return;
@@ -43,4 +53,7 @@ async function main() {
   render(React.createElement(App));
 }
 
-main().catch(console.error);
+main().catch((err) => {
+  console.error(err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+});
@@ -0,0 +1,168 @@
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { z } from "zod";
+import {
+  createItem,
+  getBookmarkById,
+  getLinksForBookmarks,
+  getThreadTweetsForBookmarks,
+  getTopicNamesForBookmarks,
+  getTopicSummaries,
+  getTopicWithBookmarks,
+  type BookmarkWithAuthor,
+} from "./db/queries";
+import { runSearch } from "./analysis/search";
+import { bookmarkUrl } from "./export";
+
+// Model Context Protocol server, so LLM assistants can look things up in the
+// bookmark index. Tools answer with JSON text; `id` is the bookmark's row id,
+// which get_bookmark and add_item take.
+
+const SERVER_NAME = "twitter-bookmark-indexer";
+const SERVER_VERSION = "1.0.0";
+
+type ToolResult = { content: { type: "text"; text: string }[]; isError?: boolean };
+
+function jsonResult(value: unknown): ToolResult {
+  return { content: [{ type: "text", text: JSON.stringify(value, null, 2) }] };
+}
+
+function errorResult(message: string): ToolResult {
+  return { content: [{ type: "text", text: message }], isError: true };
+}
+
+function summarize(bookmark: BookmarkWithAuthor) {
+  return {
+    id: bookmark.id,
+    text: bookmark.content,
+    author: `@${bookmark.username}`,
+    author_name: bookmark.display_name,
+    url: bookmarkUrl(bookmark),
+    created_at: bookmark.created_at,
+  };
+}
+
+export function createMcpServer(): McpServer {
+  const server = new McpServer({ name: SERVER_NAME, version: SERVER_VERSION });
+
+  server.registerTool(
+    "search_bookmarks",
+    {
+      description:
+        "Search saved Twitter/X bookmarks. Hybrid mode combines semantic similarity with keyword matches.",
+      inputSchema: {
+        query: z.string().min(1).describe("What to look for"),
+        limit: z.number().int().min(1).max(50).default(10),
+        mode: z.enum(["hybrid", "keyword", "semantic"]).default("hybrid"),
+      },
+    },
+    async ({ query, limit, mode }) => {
+      const results = await runSearch(query, mode, limit);
+      return jsonResult(
+        results.map(({ bookmark, score }) => ({ ...summarize(bookmark), score: Number(score.toFixed(4)) }))
+      );
+    }
+  );
+
+  server.registerTool(
+    "get_bookmark",
+    {
+      description: "Get one bookmark with its links, thread and topics.",
+      inputSchema: { id: z.number().int().positive().describe("Bookmark id from search results") },
+    },
+    async ({ id }) => {
+      const bookmark = await getBookmarkById(id);
+      if (!bookmark) return errorResult(`No bookmark with id ${id}`);
+
+      const [links, thread, topics] = await Promise.all([
+        getLinksForBookmarks([id]),
+        getThreadTweetsForBookmarks([id]),
+        getTopicNamesForBookmarks([id]),
+      ]);
+      return jsonResult({
+        ...summarize(bookmark),
+        likes: bookmark.like_count,
+        retweets: bookmark.retweet_count,
+        removed: bookmark.removed_at !== null,
+        links: (links.get(id) ?? []).map((l) => ({ url: l.expanded_url, title: l.title })),
+        thread: (thread.get(id) ?? []).map((t) => t.content),
+        topics: topics.get(id) ?? [],
+      });
+    }
+  );
+
+  server.registerTool(
+    "list_topics",
+    { description: "List the topics bookmarks have been clustered into." },
+    async () => {
+      const topics = await getTopicSummaries();
+      return jsonResult(
+        topics.map((t) => ({
+          id: t.id,
+          name: t.name,
+          description: t.description,
+          bookmarks: t.bookmark_count,
+        }))
+      );
+    }
+  );
+
+  server.registerTool(
+    "get_topic",
+    {
+      description: "Get a topic and the bookmarks in it, most relevant first.",
+      inputSchema: {
+        id: z.number().int().positive(),
+        limit: z.number().int().min(1).max(100).default(20),
+      },
+    },
+    async ({ id, limit }) => {
+      const result = await getTopicWithBookmarks(id);
+      if (!result) return errorResult(`No topic with id ${id}`);
+      return jsonResult({
+        id: result.topic.id,
+        name: result.topic.name,
+        description: result.topic.description,
+        bookmarks: result.bookmarks.slice(0, limit).map(summarize),
+      });
+    }
+  );
+
+  server.registerTool(
+    "add_item",
+    {
+      description: "Save a task, idea or resource extracted from a bookmark.",
+      inputSchema: {
+        bookmark_id: z.number().int().positive(),
+        type: z.enum(["task", "idea", "resource"]),
+        title: z.string().min(1),
+        description: z.string().optional(),
+      },
+    },
+    async ({ bookmark_id, type, title, description }) => {
+      if (!(await getBookmarkById(bookmark_id))) {
+        return errorResult(`No bookmark with id ${bookmark_id}`);
+      }
+      const id = await createItem({
+        bookmark_id,
+        type,
+        title,
+        description: description ?? null,
+        status: "pending",
+      });
+      return jsonResult({ id, bookmark_id, type, title, status: "pending" });
+    }
+  );
+
+  return server;
+}
+
+// Serve over stdio until the client disconnects
+export async function runMcpServer(): Promise<void> {
+  const server = createMcpServer();
+  const closed = new Promise<void>((resolve) => {
+    server.server.onclose = () => resolve();
+  });
+  await server.connect(new StdioServerTransport());
+  await closed;
+}
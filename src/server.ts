@@ -0,0 +1,395 @@
+import {
+  deleteSavedSearch,
+  getBookmarkById,
+  getItemById,
+  getItems,
+  getLinksForBookmarks,
+  getMediaForBookmarks,
+  getReferencedTweetsForBookmarks,
+  getSavedSearches,
+  getStats,
+  getThreadTweetsForBookmarks,
+  getTopicNamesForBookmarks,
+  getTopicSummaries,
+  getTopicWithBookmarks,
+  listBookmarks,
+  saveSearch,
+  updateItemStatus,
+  type BookmarkWithAuthor,
+  type Item,
+  type RemovedFilter,
+} from "./db/queries";
+import { runSearch, type SearchResult } from "./analysis/search";
+import {
+  bookmarkUrl,
+  FEED_CONTENT_TYPES,
+  FEED_FORMATS,
+  formatFeed,
+  loadSavedSearchFeed,
+  loadTopicFeed,
+  type Feed,
+  type FeedFormat,
+} from "./export";
+
+// A small local REST API over the index, for scripts, editor plugins and
+// browser extensions. Every response is JSON; errors look like
+// { "error": { "code": "not_found", "message": "..." } }.
+//
+//   GET   /api/bookmarks          ?limit&offset&removed&source&author&topic&since&until
+//   GET   /api/bookmarks/:id
+//   GET   /api/search             ?q&mode=hybrid|keyword|semantic&limit
+//   GET   /api/topics
+//   GET   /api/topics/:id
+//   GET   /api/items              ?type&status
+//   PATCH /api/items/:id          { "status": "done" }
+//   GET   /api/searches
+//   POST  /api/searches           { "name": "...", "query": "...", "mode": "hybrid" }
+//   DELETE /api/searches/:id
+//   GET   /api/stats
+//
+// Feeds and browser bookmark files live outside /api and aren't JSON:
+//
+//   GET   /feeds/topics/:id.atom|rss|html
+//   GET   /feeds/searches/:id.atom|rss|html
+//
+// Feed readers can't send headers, so these also accept the token as ?token=.
+
+export interface ServerOptions {
+  port?: number;
+  hostname?: string;
+  // Require `Authorization: Bearer <token>` on every request
+  token?: string;
+  // Origin allowed to call the API from a browser (CORS)
+  corsOrigin?: string;
+}
+
+type RouteHandler = (req: Request, url: URL, params: string[]) => Promise<unknown>;
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: RouteHandler;
+  // Accept the API token as a query parameter
+  queryToken?: boolean;
+}
+
+class HttpError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: string,
+    message: string
+  ) {
+    super(message);
+  }
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 200;
+const REMOVED_FILTERS: RemovedFilter[] = ["include", "exclude", "only"];
+const SEARCH_MODES = ["hybrid", "keyword", "semantic"] as const;
+const ITEM_TYPES: Item["type"][] = ["task", "idea", "resource"];
+const ITEM_STATUSES: Item["status"][] = ["pending", "done", "archived"];
+const FEED_PATTERN = new RegExp(`^/feeds/(topics|searches)/([^/.]+)\\.(${FEED_FORMATS.join("|")})$`);
+
+function intParam(url: URL, name: string, fallback: number, max = Infinity): number {
+  const raw = url.searchParams.get(name);
+  if (raw === null) return fallback;
+  const value = Number(raw);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new HttpError(400, "invalid_parameter", `${name} must be a non-negative integer`);
+  }
+  return Math.min(value, max);
+}
+
+function enumParam<T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+  name: string
+): T | undefined {
+  if (value === null) return undefined;
+  if (!allowed.includes(value as T)) {
+    throw new HttpError(400, "invalid_parameter", `${name} must be one of: ${allowed.join(", ")}`);
+  }
+  return value as T;
+}
+
+function idParam(raw: string | undefined): number {
+  const id = Number(raw);
+  if (!Number.isInteger(id) || id <= 0) {
+    throw new HttpError(400, "invalid_parameter", "id must be a positive integer");
+  }
+  return id;
+}
+
+// Picked field by field: rows carry storage columns (the vector and its
+// model, dimension and hash) that aren't part of the API
+function toApiBookmark(bookmark: BookmarkWithAuthor): BookmarkWithAuthor {
+  return {
+    id: bookmark.id,
+    tweet_id: bookmark.tweet_id,
+    author_id: bookmark.author_id,
+    username: bookmark.username,
+    display_name: bookmark.display_name,
+    content: bookmark.content,
+    created_at: bookmark.created_at,
+    bookmarked_at: bookmark.bookmarked_at,
+    first_seen_at: bookmark.first_seen_at,
+    feed_position: bookmark.feed_position,
+    like_count: bookmark.like_count,
+    retweet_count: bookmark.retweet_count,
+    synced_at: bookmark.synced_at,
+    removed_at: bookmark.removed_at,
+    conversation_id: bookmark.conversation_id,
+    thread_synced_at: bookmark.thread_synced_at,
+    source: bookmark.source,
+    url: bookmarkUrl(bookmark),
+  };
+}
+
+function toApiResults(results: SearchResult[]) {
+  return results.map(({ bookmark, score }) => ({ score, bookmark: toApiBookmark(bookmark) }));
+}
+
+async function readJsonBody<T>(req: Request): Promise<T> {
+  return (await req.json().catch(() => {
+    throw new HttpError(400, "invalid_body", "Body must be JSON");
+  })) as T;
+}
+
+const routes: Route[] = [
+  {
+    method: "GET",
+    pattern: /^\/api\/bookmarks$/,
+    async handler(_req, url) {
+      const limit = intParam(url, "limit", DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE);
+      const offset = intParam(url, "offset", 0);
+      const topic = url.searchParams.get("topic");
+      const { bookmarks, total } = await listBookmarks({
+        limit,
+        offset,
+        removed: enumParam(url.searchParams.get("removed"), REMOVED_FILTERS, "removed"),
+        source: url.searchParams.get("source") ?? undefined,
+        author: url.searchParams.get("author")?.replace(/^@/, "") || undefined,
+        topicId: topic === null ? undefined : idParam(topic),
+        since: url.searchParams.get("since") ?? undefined,
+        until: url.searchParams.get("until") ?? undefined,
+      });
+      return {
+        data: bookmarks.map(toApiBookmark),
+        pagination: {
+          limit,
+          offset,
+          total,
+          next_offset: offset + bookmarks.length < total ? offset + bookmarks.length : null,
+        },
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/bookmarks\/([^/]+)$/,
+    async handler(_req, _url, [rawId]) {
+      const id = idParam(rawId);
+      const bookmark = await getBookmarkById(id);
+      if (!bookmark) throw new HttpError(404, "not_found", `No bookmark with id ${id}`);
+
+      const [links, media, referenced, thread, topics] = await Promise.all([
+        getLinksForBookmarks([id]),
+        getMediaForBookmarks([id]),
+        getReferencedTweetsForBookmarks([id]),
+        getThreadTweetsForBookmarks([id]),
+        getTopicNamesForBookmarks([id]),
+      ]);
+      return {
+        data: {
+          ...toApiBookmark(bookmark),
+          links: links.get(id) ?? [],
+          media: media.get(id) ?? [],
+          referenced: referenced.get(id) ?? [],
+          thread: thread.get(id) ?? [],
+          topics: topics.get(id) ?? [],
+        },
+      };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/search$/,
+    async handler(_req, url) {
+      const query = url.searchParams.get("q")?.trim();
+      if (!query) throw new HttpError(400, "missing_parameter", "q is required");
+      const mode = enumParam(url.searchParams.get("mode"), SEARCH_MODES, "mode") ?? "hybrid";
+      const limit = intParam(url, "limit", 20, MAX_PAGE_SIZE);
+
+      const results = await runSearch(query, mode, limit);
+      return { data: toApiResults(results), mode };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/topics$/,
+    async handler() {
+      return { data: await getTopicSummaries() };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/topics\/([^/]+)$/,
+    async handler(_req, _url, [rawId]) {
+      const id = idParam(rawId);
+      const topic = await getTopicWithBookmarks(id);
+      if (!topic) throw new HttpError(404, "not_found", `No topic with id ${id}`);
+      return { data: { ...topic.topic, bookmarks: topic.bookmarks.map(toApiBookmark) } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/items$/,
+    async handler(_req, url) {
+      const items = await getItems({
+        type: enumParam(url.searchParams.get("type"), ITEM_TYPES, "type"),
+        status: enumParam(url.searchParams.get("status"), ITEM_STATUSES, "status"),
+      });
+      return { data: items };
+    },
+  },
+  {
+    method: "PATCH",
+    pattern: /^\/api\/items\/([^/]+)$/,
+    async handler(req, _url, [rawId]) {
+      const id = idParam(rawId);
+      const body = await readJsonBody<{ status?: string }>(req);
+      const status = enumParam(body.status ?? null, ITEM_STATUSES, "status");
+      if (!status) throw new HttpError(400, "missing_parameter", "status is required");
+
+      if (!(await getItemById(id))) throw new HttpError(404, "not_found", `No item with id ${id}`);
+      await updateItemStatus(id, status);
+      return { data: await getItemById(id) };
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/searches$/,
+    async handler() {
+      return { data: await getSavedSearches() };
+    },
+  },
+  {
+    method: "POST",
+    pattern: /^\/api\/searches$/,
+    async handler(req) {
+      const body = await readJsonBody<{ name?: string; query?: string; mode?: string }>(req);
+      const name = body.name?.trim();
+      const query = body.query?.trim();
+      if (!name || !query) throw new HttpError(400, "missing_parameter", "name and query are required");
+      const mode = enumParam(body.mode ?? null, SEARCH_MODES, "mode") ?? "hybrid";
+      const id = await saveSearch({ name, query, mode });
+      return { data: { id, name, query, mode } };
+    },
+  },
+  {
+    method: "DELETE",
+    pattern: /^\/api\/searches\/([^/]+)$/,
+    async handler(_req, _url, [rawId]) {
+      const id = idParam(rawId);
+      if (!(await deleteSavedSearch(id))) {
+        throw new HttpError(404, "not_found", `No saved search with id ${id}`);
+      }
+      return { data: { id } };
+    },
+  },
+  {
+    method: "GET",
+    pattern: FEED_PATTERN,
+    queryToken: true,
+    async handler(_req, url, [kind, rawId, format]) {
+      const id = idParam(rawId);
+      const feed: Feed | null = kind === "topics" ? await loadTopicFeed(id) : await loadSavedSearchFeed(id);
+      if (!feed) {
+        throw new HttpError(404, "not_found", `No ${kind === "topics" ? "topic" : "saved search"} with id ${id}`);
+      }
+      // Self links never carry the token
+      const self = new URL(url.pathname, url.origin).toString();
+      return new Response(formatFeed(feed, format as FeedFormat, self), {
+        headers: { "Content-Type": FEED_CONTENT_TYPES[format as FeedFormat] },
+      });
+    },
+  },
+  {
+    method: "GET",
+    pattern: /^\/api\/stats$/,
+    async handler() {
+      return { data: await getStats() };
+    },
+  },
+];
+
+function errorResponse(status: number, code: string, message: string): Response {
+  return Response.json({ error: { code, message } }, { status });
+}
+
+export function createApiHandler(
+  options: Pick<ServerOptions, "token" | "corsOrigin"> = {}
+): (req: Request) => Promise<Response> {
+  const corsHeaders: Record<string, string> = options.corsOrigin
+    ? {
+        "Access-Control-Allow-Origin": options.corsOrigin,
+        "Access-Control-Allow-Methods": "GET, POST, PATCH, DELETE, OPTIONS",
+        "Access-Control-Allow-Headers": "Authorization, Content-Type",
+        Vary: "Origin",
+      }
+    : {};
+
+  async function respond(req: Request): Promise<Response> {
+    if (req.method === "OPTIONS" && options.corsOrigin) {
+      return new Response(null, { status: 204 });
+    }
+    const url = new URL(req.url);
+    const matches = routes
+      .map((route) => ({ route, match: url.pathname.match(route.pattern) }))
+      .filter(({ match }) => match !== null);
+    const matched = matches.find(({ route }) => route.method === req.method);
+
+    if (options.token) {
+      const bearer = req.headers.get("authorization") === `Bearer ${options.token}`;
+      const query = matched?.route.queryToken && url.searchParams.get("token") === options.token;
+      if (!bearer && !query) {
+        return errorResponse(401, "unauthorized", "Missing or invalid bearer token");
+      }
+    }
+
+    if (matches.length === 0) {
+      return errorResponse(404, "not_found", `No route for ${url.pathname}`);
+    }
+    if (!matched) {
+      return errorResponse(405, "method_not_allowed", `${req.method} is not allowed on ${url.pathname}`);
+    }
+
+    try {
+      const body = await matched.route.handler(req, url, matched.match!.slice(1));
+      return body instanceof Response ? body : Response.json(body);
+    } catch (err) {
+      if (err instanceof HttpError) {
+        return errorResponse(err.status, err.code, err.message);
+      }
+      return errorResponse(500, "internal_error", err instanceof Error ? err.message : String(err));
+    }
+  }
+
+  return async (req) => {
+    const response = await respond(req);
+    for (const [name, value] of Object.entries(corsHeaders)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
+
+export function startServer(options: ServerOptions = {}) {
+  return Bun.serve({
+    port: options.port ?? 8787,
+    // Only reachable from this machine unless asked otherwise
+    hostname: options.hostname ?? "127.0.0.1",
+    fetch: createApiHandler(options),
+  });
+}
@@ -0,0 +1,18 @@
+import { readArchive, type ArchiveImportOptions } from "../twitter/archive";
+import { emitPages } from "./pages";
+import type { BookmarkSource } from "./types";
+
+export function createArchiveSource(
+  archivePath: string,
+  options: ArchiveImportOptions = {}
+): BookmarkSource {
+  return {
+    id: "twitter-archive",
+    label: "Twitter archive",
+    ordered: false,
+    resumable: false,
+    async fetch({ onPage }) {
+      await emitPages(await readArchive(archivePath, options), onPage);
+    },
+  };
+}
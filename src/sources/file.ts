@@ -0,0 +1,112 @@
+import { authorFromStatusUrl, tweetIdFromStatusUrl } from "../twitter/archive";
+import { emitPages } from "./pages";
+import type { BookmarkSource, NormalizedBookmark } from "./types";
+
+// Bookmarks exported by other tools (Bluesky/Mastodon exports, browser
+// scrapers, ...) as a JSON array or NDJSON, one record per bookmark:
+//
+//   { "id": "at://did:plc:abc/app.bsky.feed.post/3k2", "text": "...",
+//     "created_at": "2024-05-01T12:00:00Z", "url": "https://bsky.app/...",
+//     "author": { "id": "did:plc:abc", "username": "alice.bsky.social" },
+//     "links": ["https://example.com"] }
+//
+// Records should be newest first. IDs must not collide with tweet IDs, so
+// prefix them (e.g. with a URI) when they aren't globally unique. A tweet URL
+// stands in for a missing ID, and every other field is optional: whatever a
+// record leaves out keeps the value already stored for that bookmark.
+
+type RawRecord = Record<string, unknown>;
+
+function requireString(record: RawRecord, key: string, where: string): string {
+  const value = record[key];
+  if (typeof value !== "string" || value.length === 0) {
+    throw new Error(`Invalid bookmark at ${where}: missing "${key}"`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | null {
+  return typeof value === "string" ? value : null;
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === "number" ? value : undefined;
+}
+
+function normalizeRecord(record: RawRecord, where: string): NormalizedBookmark {
+  const author = record.author as RawRecord | undefined;
+  const url = optionalString(record.url);
+  const id = optionalString(record.id) || tweetIdFromStatusUrl(url ?? undefined);
+  if (!id) throw new Error(`Invalid bookmark at ${where}: missing "id"`);
+  const links = Array.isArray(record.links) ? record.links : undefined;
+
+  return {
+    id,
+    text: optionalString(record.text),
+    created_at: optionalString(record.created_at),
+    author: author
+      ? {
+          // Without an ID the author is matched by handle
+          id: optionalString(author.id),
+          username: requireString(author, "username", `${where} (author)`),
+          display_name: optionalString(author.display_name),
+          avatar_url: optionalString(author.avatar_url),
+        }
+      : authorFromStatusUrl(url ?? undefined),
+    url,
+    conversation_id: optionalString(record.conversation_id),
+    like_count: optionalNumber(record.like_count),
+    retweet_count: optionalNumber(record.retweet_count),
+    links: links?.map((link, position) => {
+      const l = (typeof link === "string" ? { url: link } : link) as RawRecord;
+      const url = requireString(l, "url", `${where} (links[${position}])`);
+      return {
+        position,
+        url,
+        expanded_url: optionalString(l.expanded_url) ?? url,
+        display_url: optionalString(l.display_url),
+        title: optionalString(l.title),
+        description: optionalString(l.description),
+      };
+    }),
+  };
+}
+
+export function parseBookmarkFile(text: string): NormalizedBookmark[] {
+  const trimmed = text.trim();
+  if (trimmed.startsWith("[")) {
+    const records = JSON.parse(trimmed) as RawRecord[];
+    return records.map((record, i) => normalizeRecord(record, `index ${i}`));
+  }
+
+  const bookmarks: NormalizedBookmark[] = [];
+  const lines = trimmed.split("\n");
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i]?.trim();
+    if (!line) continue;
+    let record: RawRecord;
+    try {
+      record = JSON.parse(line) as RawRecord;
+    } catch {
+      throw new Error(`Invalid JSON on line ${i + 1}`);
+    }
+    bookmarks.push(normalizeRecord(record, `line ${i + 1}`));
+  }
+  return bookmarks;
+}
+
+export function createFileSource(path: string): BookmarkSource {
+  return {
+    id: "file",
+    label: "JSON/NDJSON file",
+    ordered: false,
+    resumable: false,
+    async fetch({ onPage }) {
+      const file = Bun.file(path);
+      if (!(await file.exists())) {
+        throw new Error(`File not found: ${path}`);
+      }
+      await emitPages(parseBookmarkFile(await file.text()), onPage);
+    },
+  };
+}
@@ -0,0 +1,26 @@
+import { createTwitterSource } from "./twitter";
+import { createArchiveSource } from "./archive";
+import { createFileSource } from "./file";
+import type { BookmarkSource } from "./types";
+
+export type { BookmarkSource, NormalizedBookmark, NormalizedAuthor, SourcePage } from "./types";
+export { createTwitterSource, createArchiveSource, createFileSource };
+
+export type SourceKind = "twitter" | "archive" | "file";
+
+export const SOURCE_KINDS: { kind: SourceKind; label: string; needsPath: boolean }[] = [
+  { kind: "twitter", label: "Twitter API", needsPath: false },
+  { kind: "archive", label: "Twitter archive (offline)", needsPath: true },
+  { kind: "file", label: "JSON/NDJSON file", needsPath: true },
+];
+
+export function createSource(kind: SourceKind, path = ""): BookmarkSource {
+  switch (kind) {
+    case "twitter":
+      return createTwitterSource();
+    case "archive":
+      return createArchiveSource(path);
+    case "file":
+      return createFileSource(path);
+  }
+}
@@ -0,0 +1,18 @@
+import type { NormalizedBookmark, SourceFetchOptions } from "./types";
+
+const PAGE_SIZE = 100;
+
+// Hand an in-memory list of bookmarks to onPage in feed-sized pages
+export async function emitPages(
+  bookmarks: NormalizedBookmark[],
+  onPage: SourceFetchOptions["onPage"]
+): Promise<void> {
+  for (let i = 0; i < bookmarks.length; i += PAGE_SIZE) {
+    const next = i + PAGE_SIZE;
+    const page = {
+      bookmarks: bookmarks.slice(i, next),
+      cursor: next < bookmarks.length ? String(next) : null,
+    };
+    if ((await onPage(page)) === false) break;
+  }
+}
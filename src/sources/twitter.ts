@@ -0,0 +1,86 @@
+import {
+  getAllBookmarks,
+  type BookmarkPage,
+  type Tweet,
+  type TwitterMedia,
+} from "../twitter/client";
+import type { BookmarkSource, NormalizedBookmark } from "./types";
+
+function normalizeTweet(tweet: Tweet, page: BookmarkPage): NormalizedBookmark | null {
+  const user = page.users.find((u) => u.id === tweet.author_id);
+  if (!user) return null;
+
+  // Media links are t.co URLs too; they're stored as media instead
+  const urls = (tweet.entities?.urls ?? []).filter((u) => !u.media_key);
+  const media = (tweet.attachments?.media_keys ?? [])
+    .map((key) => page.media.find((m) => m.media_key === key))
+    .filter((m): m is TwitterMedia => m !== undefined);
+
+  return {
+    id: tweet.id,
+    text: tweet.text,
+    created_at: tweet.created_at,
+    author: {
+      id: user.id,
+      username: user.username,
+      display_name: user.name,
+      avatar_url: user.profile_image_url ?? null,
+    },
+    like_count: tweet.public_metrics?.like_count ?? 0,
+    retweet_count: tweet.public_metrics?.retweet_count ?? 0,
+    conversation_id: tweet.conversation_id ?? null,
+    links: urls.map((u, position) => ({
+      position,
+      url: u.url,
+      expanded_url: u.unwound_url ?? u.expanded_url,
+      display_url: u.display_url ?? null,
+      title: u.title ?? null,
+      description: u.description ?? null,
+    })),
+    media: media.map((m, position) => ({
+      position,
+      media_key: m.media_key,
+      type: m.type,
+      url: m.url ?? null,
+      preview_image_url: m.preview_image_url ?? null,
+      alt_text: m.alt_text ?? null,
+      width: m.width ?? null,
+      height: m.height ?? null,
+    })),
+    referenced: (tweet.referenced_tweets ?? []).map((ref) => {
+      const referenced = page.includedTweets.find((t) => t.id === ref.id);
+      const author = referenced
+        ? page.users.find((u) => u.id === referenced.author_id)
+        : undefined;
+      return {
+        type: ref.type,
+        tweet_id: ref.id,
+        author_username: author?.username ?? null,
+        content: referenced?.text ?? null,
+        created_at: referenced?.created_at ?? null,
+      };
+    }),
+  };
+}
+
+export function createTwitterSource(): BookmarkSource {
+  return {
+    id: "twitter",
+    label: "Twitter API",
+    ordered: true,
+    resumable: true,
+    async fetch({ cursor, maxTotal, onPage }) {
+      await getAllBookmarks(undefined, {
+        maxTotal,
+        paginationToken: cursor,
+        onPage: (page) =>
+          onPage({
+            bookmarks: page.tweets
+              .map((tweet) => normalizeTweet(tweet, page))
+              .filter((b): b is NormalizedBookmark => b !== null),
+            cursor: page.nextToken ?? null,
+          }),
+      });
+    },
+  };
+}
@@ -0,0 +1,51 @@
+import type { BookmarkLink, BookmarkMedia, ReferencedTweet } from "../db/queries";
+
+export interface NormalizedAuthor {
+  // Stable ID within the source, stored as authors.twitter_id; null when only
+  // the handle is known, which then matches a stored author of that name
+  id: string | null;
+  username: string;
+  display_name: string | null;
+  avatar_url: string | null;
+}
+
+// A saved post in the shape the indexer stores, whatever it came from.
+// Fields that are null or left undefined mean "unknown" and keep what's
+// stored, so a sparse import never overwrites what a better source saved.
+export interface NormalizedBookmark {
+  id: string; // Stored as bookmarks.tweet_id, so it must be unique across sources
+  text: string | null;
+  created_at: string | null;
+  author: NormalizedAuthor | null;
+  url?: string | null; // Permalink, for sources that aren't tweets
+  like_count?: number;
+  retweet_count?: number;
+  conversation_id?: string | null;
+  links?: Omit<BookmarkLink, "id" | "bookmark_id">[];
+  media?: Omit<BookmarkMedia, "id" | "bookmark_id">[];
+  referenced?: Omit<ReferencedTweet, "id" | "bookmark_id">[];
+}
+
+export interface SourcePage {
+  bookmarks: NormalizedBookmark[];
+  // Cursor to continue after this page; null once the source is exhausted
+  cursor: string | null;
+}
+
+export interface SourceFetchOptions {
+  cursor?: string;
+  maxTotal?: number;
+  // Called with each page; return false to stop fetching
+  onPage: (page: SourcePage) => Promise<boolean | void>;
+}
+
+export interface BookmarkSource {
+  id: string; // Stored as bookmarks.source
+  label: string;
+  // Pages come newest-first from a live feed, so incremental syncs can stop at
+  // known bookmarks and a complete walk shows which ones were removed
+  ordered: boolean;
+  // Cursors can be persisted and resumed by a later run
+  resumable: boolean;
+  fetch(options: SourceFetchOptions): Promise<void>;
+}
@@ -0,0 +1,164 @@
+import { readdir } from "fs/promises";
+import { join } from "path";
+import type { NormalizedAuthor, NormalizedBookmark } from "../sources/types";
+
+// Offline import from the downloadable Twitter/X account archive. Each
+// data/*.js file is a JS assignment like `window.YTD.like.part0 = [...]`.
+
+export type ArchiveKind = "bookmarks" | "likes" | "tweets";
+
+export interface ArchiveImportOptions {
+  // Which parts of the archive to read as bookmarks. The account's own
+  // tweets are always read to fill in authors and links.
+  include?: ArchiveKind[];
+}
+
+interface ArchiveAccount {
+  accountId: string;
+  username: string;
+  accountDisplayName?: string;
+}
+
+// Shape of entries in like.js and bookmark.js
+interface ArchiveSavedTweet {
+  tweetId: string;
+  fullText?: string;
+  expandedUrl?: string;
+}
+
+interface ArchiveTweet {
+  id_str: string;
+  full_text: string;
+  created_at: string; // e.g. "Wed Oct 10 20:19:24 +0000 2018"
+  favorite_count?: string;
+  retweet_count?: string;
+  entities?: {
+    urls?: { url: string; expanded_url: string; display_url?: string }[];
+  };
+}
+
+// Saved tweets link to https://twitter.com/<handle>/status/<id>, which is the
+// only trace of who wrote them ("i" stands in when the archive didn't know)
+const STATUS_URL = /^https?:\/\/(?:www\.|mobile\.)?(?:twitter|x)\.com\/(\w{1,15})\/status\/(\d+)/i;
+
+export function tweetIdFromStatusUrl(url: string | undefined): string | null {
+  return url?.match(STATUS_URL)?.[2] ?? null;
+}
+
+export function authorFromStatusUrl(url: string | undefined): NormalizedAuthor | null {
+  const handle = url?.match(STATUS_URL)?.[1];
+  if (!handle || handle.toLowerCase() === "i") return null;
+  // The archive has no account ID for them, only the handle
+  return { id: null, username: handle, display_name: null, avatar_url: null };
+}
+
+const TWITTER_EPOCH_MS = 1288834974657n;
+
+// Tweet IDs are snowflakes with the creation time in their upper bits
+export function snowflakeToDate(id: string): string {
+  return new Date(Number((BigInt(id) >> 22n) + TWITTER_EPOCH_MS)).toISOString();
+}
+
+export function parseArchiveFile<T>(source: string): T[] {
+  const start = source.indexOf("=");
+  if (!source.trimStart().startsWith("window.YTD.") || start === -1) {
+    throw new Error("Not a Twitter archive data file (missing window.YTD prefix)");
+  }
+  return JSON.parse(source.slice(start + 1).trim().replace(/;$/, "")) as T[];
+}
+
+async function findDataDir(archivePath: string): Promise<string> {
+  const entries = await readdir(archivePath).catch(() => {
+    throw new Error(`Archive not found: ${archivePath}`);
+  });
+  return entries.includes("data") ? join(archivePath, "data") : archivePath;
+}
+
+// Read every part of a data file, e.g. like.js, like-part1.js, ...
+async function readArchiveEntries<T>(
+  dataDir: string,
+  names: string[],
+  key: string
+): Promise<T[]> {
+  const files = (await readdir(dataDir))
+    .filter((file) => names.some((name) => file === `${name}.js` || file.startsWith(`${name}-part`)))
+    .sort();
+
+  const entries: T[] = [];
+  for (const file of files) {
+    const text = await Bun.file(join(dataDir, file)).text();
+    for (const wrapper of parseArchiveFile<Record<string, T>>(text)) {
+      const entry = wrapper[key];
+      if (entry) entries.push(entry);
+    }
+  }
+  return entries;
+}
+
+export async function readArchive(
+  archivePath: string,
+  options: ArchiveImportOptions = {}
+): Promise<NormalizedBookmark[]> {
+  const include = options.include ?? ["bookmarks", "likes"];
+  const dataDir = await findDataDir(archivePath);
+
+  const [account] = await readArchiveEntries<ArchiveAccount>(dataDir, ["account"], "account");
+  const ownTweets = await readArchiveEntries<ArchiveTweet>(dataDir, ["tweets", "tweet"], "tweet");
+  const ownTweetsById = new Map(ownTweets.map((t) => [t.id_str, t]));
+  const ownAuthor = account
+    ? {
+        id: account.accountId,
+        username: account.username,
+        display_name: account.accountDisplayName ?? null,
+        avatar_url: null,
+      }
+    : null;
+
+  // Newest first, as in the archive files
+  const saved: ArchiveSavedTweet[] = [];
+  if (include.includes("bookmarks")) {
+    saved.push(...(await readArchiveEntries<ArchiveSavedTweet>(dataDir, ["bookmark", "bookmarks"], "bookmark")));
+  }
+  if (include.includes("likes")) {
+    saved.push(...(await readArchiveEntries<ArchiveSavedTweet>(dataDir, ["like"], "like")));
+  }
+  if (include.includes("tweets")) {
+    saved.push(...ownTweets.map((t) => ({ tweetId: t.id_str, fullText: t.full_text })));
+  }
+
+  // A tweet can be both bookmarked and liked; it keeps its first place, with
+  // text and URL from whichever entry has them
+  const entries = new Map<string, ArchiveSavedTweet>();
+  for (const entry of saved) {
+    const first = entries.get(entry.tweetId);
+    entries.set(
+      entry.tweetId,
+      first
+        ? { ...first, fullText: first.fullText ?? entry.fullText, expandedUrl: first.expandedUrl ?? entry.expandedUrl }
+        : entry
+    );
+  }
+
+  // Anything the archive doesn't say is left null, so importing it over
+  // bookmarks synced from the API doesn't overwrite what they know
+  return [...entries.values()].map((entry) => {
+    const own = ownTweetsById.get(entry.tweetId);
+    return {
+      id: entry.tweetId,
+      text: own?.full_text ?? entry.fullText ?? null,
+      created_at: own ? new Date(own.created_at).toISOString() : snowflakeToDate(entry.tweetId),
+      author: (own && ownAuthor) || authorFromStatusUrl(entry.expandedUrl),
+      url: entry.expandedUrl ?? null,
+      like_count: own?.favorite_count !== undefined ? Number(own.favorite_count) : undefined,
+      retweet_count: own?.retweet_count !== undefined ? Number(own.retweet_count) : undefined,
+      links: own?.entities?.urls?.map((u, position) => ({
+        position,
+        url: u.url,
+        expanded_url: u.expanded_url,
+        display_url: u.display_url ?? null,
+        title: null,
+        description: null,
+      })),
+    };
+  });
+}
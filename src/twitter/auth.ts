@@ -1,7 +1,7 @@
 import { randomBytes, createHash } from "crypto";
 
 const TWITTER_AUTH_URL = "https://twitter.com/i/oauth2/authorize";
-const TWITTER_TOKEN_URL = "https://api.twitter.com/2/oauth2/token";
+const DEFAULT_TOKEN_URL = "https://api.twitter.com/2/oauth2/token";
 const REDIRECT_URI = "http://localhost:3000/callback";
 const SCOPES = ["bookmark.read", "tweet.read", "users.read", "offline.access"];
 
@@ -14,6 +14,19 @@ interface TokenData {
 let tokenData: TokenData | null = null;
 let pkceVerifier: string | null = null;
 
+// Both can be overridden, e.g. to run against a local fake API in tests
+function getTokenUrl(): string {
+  if (process.env.TWITTER_TOKEN_URL) return process.env.TWITTER_TOKEN_URL;
+  if (process.env.TWITTER_API_BASE_URL) {
+    return `${process.env.TWITTER_API_BASE_URL.replace(/\/$/, "")}/oauth2/token`;
+  }
+  return DEFAULT_TOKEN_URL;
+}
+
+function getTokensPath(): string {
+  return process.env.TWITTER_TOKENS_PATH ?? ".twitter-tokens.json";
+}
+
 function generateCodeVerifier(): string {
   return randomBytes(32).toString("base64url");
 }
@@ -86,7 +99,7 @@ export async function exchangeCodeForToken(code: string): Promise<TokenData> {
     headers["Authorization"] = `Basic ${credentials}`;
   }
 
-  const response = await fetch(TWITTER_TOKEN_URL, {
+  const response = await fetch(getTokenUrl(), {
     method: "POST",
     headers,
     body: params.toString(),
@@ -152,7 +165,7 @@ export async function refreshAccessToken(): Promise<TokenData> {
     headers["Authorization"] = `Basic ${credentials}`;
   }
 
-  const response = await fetch(TWITTER_TOKEN_URL, {
+  const response = await fetch(getTokenUrl(), {
     method: "POST",
     headers,
     body: params.toString(),
@@ -208,13 +221,13 @@ export async function isAuthenticated(): Promise<boolean> {
 }
 
 async function saveTokens(tokens: TokenData): Promise<void> {
-  const file = Bun.file(".twitter-tokens.json");
+  const file = Bun.file(getTokensPath());
   await Bun.write(file, JSON.stringify(tokens, null, 2));
 }
 
 async function loadTokens(): Promise<TokenData | null> {
   try {
-    const file = Bun.file(".twitter-tokens.json");
+    const file = Bun.file(getTokensPath());
     if (!(await file.exists())) {
       return null;
     }
@@ -229,7 +242,7 @@ async function loadTokens(): Promise<TokenData | null> {
 export async function logout(): Promise<void> {
   tokenData = null;
   try {
-    const file = Bun.file(".twitter-tokens.json");
+    const file = Bun.file(getTokensPath());
     if (await file.exists()) {
       await Bun.write(file, "");
     }
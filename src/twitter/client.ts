@@ -1,12 +1,24 @@
-import { getAccessToken } from "./auth";
+import { getAccessToken, refreshAccessToken } from "./auth";
+import { getTierConfig, recordRateLimit, waitForBudget, waitForReset } from "./rateLimit";
 
-// Use new X API if Bearer token is set, otherwise use legacy Twitter API
-const TWITTER_API_BASE = process.env.X_CONSOLE_BEARER_TOKEN
-  ? "https://api.x.com/2"
-  : "https://api.twitter.com/2";
+// Use new X API if Bearer token is set, otherwise use legacy Twitter API.
+// TWITTER_API_BASE_URL overrides both, e.g. to point at a local fake in tests.
+function getApiBase(): string {
+  if (process.env.TWITTER_API_BASE_URL) {
+    return process.env.TWITTER_API_BASE_URL.replace(/\/$/, "");
+  }
+  return process.env.X_CONSOLE_BEARER_TOKEN
+    ? "https://api.x.com/2"
+    : "https://api.twitter.com/2";
+}
 
 let cachedUserId: string | null = null;
 
+// Forget the cached user, e.g. after logging out or switching API base
+export function resetClientState(): void {
+  cachedUserId = null;
+}
+
 function getBearerToken(): string | null {
   return process.env.X_CONSOLE_BEARER_TOKEN ?? null;
 }
@@ -18,23 +30,59 @@ export interface TwitterUser {
   profile_image_url?: string;
 }
 
+export interface TweetUrlEntity {
+  start: number;
+  end: number;
+  url: string;
+  expanded_url: string;
+  display_url: string;
+  media_key?: string;
+  unwound_url?: string;
+  title?: string;
+  description?: string;
+}
+
+export interface TwitterMedia {
+  media_key: string;
+  type: "photo" | "video" | "animated_gif";
+  url?: string;
+  preview_image_url?: string;
+  alt_text?: string;
+  width?: number;
+  height?: number;
+}
+
 export interface Tweet {
   id: string;
   text: string;
   created_at: string;
   author_id: string;
+  conversation_id?: string;
+  in_reply_to_user_id?: string;
   public_metrics?: {
     retweet_count: number;
     reply_count: number;
     like_count: number;
     quote_count: number;
   };
+  entities?: {
+    urls?: TweetUrlEntity[];
+  };
+  attachments?: {
+    media_keys?: string[];
+  };
+  referenced_tweets?: {
+    type: "quoted" | "replied_to" | "retweeted";
+    id: string;
+  }[];
 }
 
 export interface BookmarksResponse {
   data?: Tweet[];
   includes?: {
     users?: TwitterUser[];
+    media?: TwitterMedia[];
+    tweets?: Tweet[];
   };
   meta?: {
     next_token?: string;
@@ -45,18 +93,22 @@ export interface BookmarksResponse {
 async function twitterFetch<T>(
   endpoint: string,
   options: RequestInit = {},
-  retryCount = 0
+  retryCount = 0,
+  refreshed = false
 ): Promise<T> {
   // Prefer X Console Bearer token, fall back to OAuth
   const bearerToken = getBearerToken();
   const accessToken = bearerToken ?? (await getAccessToken());
+  const apiBase = getApiBase();
 
-  console.log(`[Debug] API Base: ${TWITTER_API_BASE}`);
+  console.log(`[Debug] API Base: ${apiBase}`);
   console.log(`[Debug] Using Bearer Token: ${!!bearerToken}`);
   console.log(`[Debug] Token prefix: ${accessToken.slice(0, 10)}...`);
   console.log(`[Debug] Endpoint: ${endpoint}`);
 
-  const response = await fetch(`${TWITTER_API_BASE}${endpoint}`, {
+  await waitForBudget(endpoint);
+
+  const response = await fetch(`${apiBase}${endpoint}`, {
     ...options,
     headers: {
       Authorization: `Bearer ${accessToken}`,
@@ -65,19 +117,16 @@ async function twitterFetch<T>(
     },
   });
 
+  await recordRateLimit(endpoint, response.headers);
+
   if (response.status === 429) {
-    // Rate limited - check when we can retry
+    // Rate limited - wait for the window to reset, up to 3 times
     const resetTime = response.headers.get("x-rate-limit-reset");
     const remaining = response.headers.get("x-rate-limit-remaining");
 
     if (retryCount < 3 && resetTime) {
-      const resetMs = parseInt(resetTime, 10) * 1000;
-      const waitMs = Math.max(resetMs - Date.now(), 1000) + 1000; // Add 1s buffer
-      const waitMins = Math.ceil(waitMs / 60000);
-
-      console.log(`Rate limited. Waiting ${waitMins} minute(s) until reset...`);
-      await new Promise((resolve) => setTimeout(resolve, waitMs));
-      return twitterFetch<T>(endpoint, options, retryCount + 1);
+      await waitForReset(endpoint, new Date(parseInt(resetTime, 10) * 1000).toISOString());
+      return twitterFetch<T>(endpoint, options, retryCount + 1, refreshed);
     }
 
     throw new Error(
@@ -86,6 +135,12 @@ async function twitterFetch<T>(
     );
   }
 
+  if (response.status === 401 && !bearerToken && !refreshed) {
+    // The access token was revoked or expired early; refresh once and retry
+    await refreshAccessToken();
+    return twitterFetch<T>(endpoint, options, retryCount, true);
+  }
+
   if (!response.ok) {
     const error = await response.text();
     throw new Error(`Twitter API error (${response.status}): ${error}`);
@@ -120,9 +175,11 @@ export async function getBookmarks(
 ): Promise<BookmarksResponse> {
   const params = new URLSearchParams({
     max_results: String(Math.min(maxResults, 100)),
-    "tweet.fields": "created_at,public_metrics,author_id",
-    expansions: "author_id",
+    "tweet.fields":
+      "created_at,public_metrics,author_id,entities,attachments,referenced_tweets,conversation_id",
+    expansions: "author_id,attachments.media_keys,referenced_tweets.id,referenced_tweets.id.author_id",
     "user.fields": "username,name,profile_image_url",
+    "media.fields": "type,url,preview_image_url,alt_text,width,height",
   });
 
   if (paginationToken) {
@@ -136,34 +193,93 @@ export async function getBookmarks(
   );
 }
 
+// Recent search only reaches back this far
+export const RECENT_SEARCH_DAYS = 7;
+
+// Fetch an author's own tweets in a conversation. Tiers without full-archive
+// search use recent search, which only sees the last RECENT_SEARCH_DAYS.
+export async function getConversationTweets(
+  conversationId: string,
+  username: string,
+  maxTotal = 300
+): Promise<Tweet[]> {
+  const endpoint = getTierConfig().fullArchiveSearch ? "/tweets/search/all" : "/tweets/search/recent";
+  const tweets: Tweet[] = [];
+  let nextToken: string | undefined;
+
+  do {
+    const params = new URLSearchParams({
+      query: `conversation_id:${conversationId} from:${username}`,
+      max_results: "100",
+      "tweet.fields": "created_at,author_id,conversation_id,in_reply_to_user_id,entities",
+    });
+    if (nextToken) {
+      params.set("next_token", nextToken);
+    }
+
+    const response = await twitterFetch<BookmarksResponse>(`${endpoint}?${params.toString()}`);
+    tweets.push(...(response.data ?? []));
+    nextToken = response.meta?.next_token;
+  } while (nextToken && tweets.length < maxTotal);
+
+  return tweets;
+}
+
+export interface BookmarkPage {
+  tweets: Tweet[];
+  users: TwitterUser[];
+  media: TwitterMedia[];
+  includedTweets: Tweet[]; // Quoted and replied-to tweets
+  nextToken?: string;
+}
+
+export interface GetAllBookmarksOptions {
+  maxTotal?: number;
+  // Cursor to resume from, e.g. one persisted by an interrupted backfill
+  paginationToken?: string;
+  // Called after each page is fetched; return false to stop paging
+  onPage?: (page: BookmarkPage) => Promise<boolean | void>;
+  // Wait between pages; defaults to the API tier's pacing
+  pageDelayMs?: number;
+}
+
 export async function getAllBookmarks(
   onProgress?: (count: number) => void,
-  maxTotal = 100 // Reduced for free tier
+  options: GetAllBookmarksOptions = {}
 ): Promise<{ tweets: Tweet[]; users: Map<string, TwitterUser> }> {
+  const tier = getTierConfig();
+  const { maxTotal = tier.incrementalLimit, onPage, pageDelayMs = tier.pageDelayMs } = options;
   const allTweets: Tweet[] = [];
   const usersMap = new Map<string, TwitterUser>();
-  let paginationToken: string | undefined;
+  let paginationToken = options.paginationToken;
 
   do {
-    const response = await getBookmarks(paginationToken, 50); // Smaller batches
+    const response = await getBookmarks(paginationToken, tier.pageSize);
+    const tweets = response.data ?? [];
+    const users = response.includes?.users ?? [];
 
-    if (response.data) {
-      allTweets.push(...response.data);
-    }
-
-    if (response.includes?.users) {
-      for (const user of response.includes.users) {
-        usersMap.set(user.id, user);
-      }
+    allTweets.push(...tweets);
+    for (const user of users) {
+      usersMap.set(user.id, user);
     }
 
     paginationToken = response.meta?.next_token;
     onProgress?.(allTweets.length);
 
-    // Rate limit: wait longer between requests for free tier
-    if (paginationToken) {
-      console.log(`Fetched ${allTweets.length} bookmarks, waiting before next batch...`);
-      await new Promise((resolve) => setTimeout(resolve, 5000)); // 5 seconds between requests
+    const page: BookmarkPage = {
+      tweets,
+      users,
+      media: response.includes?.media ?? [],
+      includedTweets: response.includes?.tweets ?? [],
+      nextToken: paginationToken,
+    };
+    if (onPage && (await onPage(page)) === false) {
+      break;
+    }
+
+    // Pace requests for the API tier; an exhausted budget is waited out in twitterFetch
+    if (paginationToken && allTweets.length < maxTotal) {
+      await new Promise((resolve) => setTimeout(resolve, pageDelayMs));
     }
   } while (paginationToken && allTweets.length < maxTotal);
 
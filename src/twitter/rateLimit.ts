@@ -0,0 +1,102 @@
+import { getRateLimit, saveRateLimit, type RateLimit } from "../db/queries";
+
+// Twitter API access tiers differ wildly in how many bookmark requests they
+// allow, so page size and pacing come from the configured tier
+// (TWITTER_API_TIER), while the live budget comes from x-rate-limit-* headers.
+
+export type ApiTier = "free" | "basic" | "pro";
+
+export interface TierConfig {
+  pageSize: number; // max_results per bookmarks request
+  pageDelayMs: number; // Minimum gap between bookmark pages
+  incrementalLimit: number; // Bookmarks an incremental sync looks at
+  fullArchiveSearch: boolean; // Can search tweets older than a week, e.g. to rebuild threads
+}
+
+export const API_TIERS: Record<ApiTier, TierConfig> = {
+  free: { pageSize: 50, pageDelayMs: 5000, incrementalLimit: 100, fullArchiveSearch: false },
+  basic: { pageSize: 100, pageDelayMs: 1000, incrementalLimit: 400, fullArchiveSearch: false },
+  pro: { pageSize: 100, pageDelayMs: 0, incrementalLimit: 800, fullArchiveSearch: true },
+};
+
+// The endpoint whose budget limits syncing, keyed like endpointKey() does
+export const BOOKMARKS_ENDPOINT = "/users/:id/bookmarks";
+
+export interface RateLimitWait {
+  endpoint: string;
+  until: string;
+}
+
+type WaitListener = (wait: RateLimitWait) => void;
+
+const waitListeners = new Set<WaitListener>();
+
+export function getApiTier(): ApiTier {
+  const tier = process.env.TWITTER_API_TIER?.toLowerCase();
+  return tier && tier in API_TIERS ? (tier as ApiTier) : "free";
+}
+
+export function getTierConfig(): TierConfig {
+  const config = API_TIERS[getApiTier()];
+  // TWITTER_PAGE_DELAY_MS overrides the tier's pacing, e.g. for tests
+  const raw = process.env.TWITTER_PAGE_DELAY_MS;
+  const delay = raw ? Number(raw) : NaN;
+  return Number.isFinite(delay) && delay >= 0 ? { ...config, pageDelayMs: delay } : config;
+}
+
+// Budgets are per endpoint, not per URL: "/users/123/bookmarks?..." -> "/users/:id/bookmarks"
+export function endpointKey(endpoint: string): string {
+  return (endpoint.split("?")[0] ?? endpoint).replace(/\/\d+(?=\/|$)/g, "/:id");
+}
+
+// Get notified whenever a request sleeps for a rate limit window; returns an unsubscribe function
+export function onRateLimitWait(listener: WaitListener): () => void {
+  waitListeners.add(listener);
+  return () => waitListeners.delete(listener);
+}
+
+export async function recordRateLimit(
+  endpoint: string,
+  headers: Headers
+): Promise<RateLimit | null> {
+  const remaining = headers.get("x-rate-limit-remaining");
+  const reset = headers.get("x-rate-limit-reset");
+  if (remaining === null || reset === null) return null;
+
+  const limit = headers.get("x-rate-limit-limit");
+  const rateLimit: RateLimit = {
+    endpoint: endpointKey(endpoint),
+    limit_total: limit === null ? null : parseInt(limit, 10),
+    remaining: parseInt(remaining, 10),
+    reset_at: new Date(parseInt(reset, 10) * 1000).toISOString(),
+    updated_at: new Date().toISOString(),
+  };
+  await saveRateLimit(rateLimit);
+  return rateLimit;
+}
+
+// Sleep until a rate limit window resets (plus a 1s buffer, and at least 2s)
+export async function waitForReset(endpoint: string, resetAt: string): Promise<void> {
+  const waitMs = Math.max(new Date(resetAt).getTime() - Date.now(), 1000) + 1000;
+  const until = new Date(Date.now() + waitMs).toISOString();
+  for (const listener of waitListeners) {
+    listener({ endpoint: endpointKey(endpoint), until });
+  }
+  await new Promise((resolve) => setTimeout(resolve, waitMs));
+}
+
+// Wait out an exhausted budget instead of spending a request on a certain 429
+export async function waitForBudget(endpoint: string): Promise<void> {
+  const rateLimit = await getRateLimit(endpointKey(endpoint));
+  if (
+    rateLimit &&
+    rateLimit.remaining <= 0 &&
+    new Date(rateLimit.reset_at).getTime() > Date.now()
+  ) {
+    await waitForReset(endpoint, rateLimit.reset_at);
+  }
+}
+
+export function getBookmarksBudget(): Promise<RateLimit | null> {
+  return getRateLimit(BOOKMARKS_ENDPOINT);
+}
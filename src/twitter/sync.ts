@@ -1,101 +1,260 @@
-import { getAllBookmarks, type Tweet, type TwitterUser } from "./client";
+import { syncThreads } from "./threads";
+import { getTierConfig, onRateLimitWait } from "./rateLimit";
 import {
+  createTwitterSource,
+  type BookmarkSource,
+  type NormalizedAuthor,
+  type NormalizedBookmark,
+} from "../sources";
+import {
+  getAuthorByUsername,
   upsertAuthor,
   upsertBookmark,
   getSyncState,
   updateSyncState,
   getBookmarkCount,
+  getExistingTweetIds,
+  markUnseenBookmarksRemoved,
+  markBookmarksSeen,
+  replaceBookmarkLinks,
+  replaceBookmarkMedia,
+  replaceReferencedTweets,
 } from "../db/queries";
 
+// "incremental" stops at the first page made up only of tweets we already store;
+// "full" walks the whole bookmark feed and refreshes every tweet (for backfills);
+// "resume" continues a full sync from the cursor persisted by an interrupted run
+export type SyncMode = "incremental" | "full" | "resume";
+
+export interface SyncOptions {
+  mode?: SyncMode;
+  // Where bookmarks come from; defaults to the Twitter API
+  source?: BookmarkSource;
+  // Also reconstruct threads for bookmarked thread openers (extra API calls)
+  includeThreads?: boolean;
+}
+
 export interface SyncProgress {
-  phase: "fetching" | "saving" | "complete";
+  phase: "fetching" | "saving" | "threads" | "waiting" | "complete";
   fetched: number;
   saved: number;
   total?: number;
+  // While waiting for a rate limit window: when requests resume
+  resumeAt?: string;
 }
 
 export interface SyncResult {
+  source: string;
+  mode: SyncMode;
   newBookmarks: number;
   updatedBookmarks: number;
+  removedBookmarks: number;
+  threadsFound: number;
+  // Threads too old for the API tier's search to rebuild
+  threadsSkipped: number;
   totalBookmarks: number;
   syncedAt: string;
 }
 
+// The bookmarks endpoint only serves about this many of the most recent
+// bookmarks, so a walk that reaches it can't tell old bookmarks from removed ones
+const BOOKMARK_FEED_LIMIT = 800;
+
+// Where a run sits in the bookmark feed. Sources don't tell us when something
+// was bookmarked, so new bookmarks get the time the run started (a resumed
+// backfill keeps its original start) and their feed position within that run.
+interface FeedAnchor {
+  startedAt: string;
+  position: number;
+}
+
+async function resolveAuthor(author: NormalizedAuthor | null): Promise<number | null> {
+  if (!author) return null;
+  if (author.id === null) {
+    // Only a handle: prefer the author a fuller source stored under it
+    const known = await getAuthorByUsername(author.username);
+    if (known) return known.id;
+  }
+  return upsertAuthor({
+    twitter_id: author.id ?? `handle:${author.username.toLowerCase()}`,
+    username: author.username,
+    display_name: author.display_name,
+    avatar_url: author.avatar_url,
+  });
+}
+
+async function saveBookmark(
+  bookmark: NormalizedBookmark,
+  position: number,
+  source: BookmarkSource,
+  syncedAt: string,
+  anchor: FeedAnchor
+): Promise<void> {
+  // Anything the source doesn't know is passed as null and keeps what's stored
+  const authorId = await resolveAuthor(bookmark.author);
+
+  const bookmarkId = await upsertBookmark({
+    tweet_id: bookmark.id,
+    author_id: authorId,
+    content: bookmark.text,
+    created_at: bookmark.created_at,
+    bookmarked_at: anchor.startedAt,
+    first_seen_at: syncedAt,
+    feed_position: position,
+    like_count: bookmark.like_count ?? null,
+    retweet_count: bookmark.retweet_count ?? null,
+    synced_at: syncedAt,
+    conversation_id: bookmark.conversation_id ?? null,
+    source: source.id,
+    url: bookmark.url ?? null,
+  });
+
+  // Expansions the source doesn't know about keep what's stored
+  if (bookmark.links) await replaceBookmarkLinks(bookmarkId, bookmark.links);
+  if (bookmark.media) await replaceBookmarkMedia(bookmarkId, bookmark.media);
+  if (bookmark.referenced) await replaceReferencedTweets(bookmarkId, bookmark.referenced);
+}
+
 export async function syncBookmarks(
-  onProgress?: (progress: SyncProgress) => void
+  onProgress?: (progress: SyncProgress) => void,
+  options: SyncOptions = {}
 ): Promise<SyncResult> {
+  const source = options.source ?? createTwitterSource();
+  const initialState = await getSyncState();
+  // Sources without a live, ordered feed are always read in full, and so is
+  // the API once to backfill expansions of bookmarks stored without them
+  let mode = source.ordered ? (options.mode ?? "incremental") : "full";
+  if (mode === "incremental" && source.id === "twitter" && initialState.expansions_backfill_pending) {
+    mode = "full";
+  }
+  const resumable = source.resumable && mode !== "incremental";
   const syncedAt = new Date().toISOString();
-  let newCount = 0;
-  let updateCount = 0;
+  const existingCount = await getBookmarkCount();
+  let fetched = 0;
+  let saved = 0;
+  let complete = false;
+  let largestPage = 0;
 
-  // Fetch all bookmarks from Twitter
-  onProgress?.({ phase: "fetching", fetched: 0, saved: 0 });
+  const state = mode === "resume" ? initialState : null;
+  const startCursor = state?.pagination_token ?? undefined;
+  const anchor: FeedAnchor = {
+    startedAt: (startCursor && state?.backfill_started_at) || syncedAt,
+    position: (startCursor && state?.backfill_position) || 0,
+  };
 
-  const { tweets, users } = await getAllBookmarks((count) => {
-    onProgress?.({ phase: "fetching", fetched: count, saved: 0 });
-  });
+  let removedCount = 0;
+  let threadsFound = 0;
+  let threadsSkipped = 0;
 
-  // Save to database
-  onProgress?.({
-    phase: "saving",
-    fetched: tweets.length,
-    saved: 0,
-    total: tweets.length,
+  // Surface rate limit waits instead of appearing frozen
+  const stopWaitUpdates = onRateLimitWait((wait) => {
+    onProgress?.({ phase: "waiting", fetched, saved, resumeAt: wait.until });
   });
 
-  const existingCount = await getBookmarkCount();
+  // Fetch bookmarks from the source, saving each page before asking for the next
+  onProgress?.({ phase: "fetching", fetched: 0, saved: 0 });
 
-  for (let i = 0; i < tweets.length; i++) {
-    const tweet = tweets[i];
-    if (!tweet) continue;
+  try {
+    await source.fetch({
+      // Incremental syncs stay within the API tier's small batch
+      maxTotal: mode === "incremental" ? getTierConfig().incrementalLimit : Infinity,
+      cursor: startCursor,
+      onPage: async (page) => {
+        fetched += page.bookmarks.length;
+        largestPage = Math.max(largestPage, page.bookmarks.length);
+        onProgress?.({ phase: "fetching", fetched, saved });
 
-    const user = users.get(tweet.author_id);
+        let bookmarks = page.bookmarks.map((bookmark, i) => ({
+          bookmark,
+          position: anchor.position + i,
+        }));
+        anchor.position += page.bookmarks.length;
 
-    if (user) {
-      const authorId = await upsertAuthor({
-        twitter_id: user.id,
-        username: user.username,
-        display_name: user.name,
-        avatar_url: user.profile_image_url ?? null,
-      });
+        if (mode === "incremental") {
+          // Incremental syncs only save bookmarks we haven't stored yet
+          const existing = await getExistingTweetIds(page.bookmarks.map((b) => b.id));
+          bookmarks = bookmarks.filter(({ bookmark }) => !existing.has(bookmark.id));
+        }
 
-      await upsertBookmark({
-        tweet_id: tweet.id,
-        author_id: authorId,
-        content: tweet.text,
-        created_at: tweet.created_at,
-        bookmarked_at: tweet.created_at, // Twitter API doesn't provide actual bookmark time
-        like_count: tweet.public_metrics?.like_count ?? 0,
-        retweet_count: tweet.public_metrics?.retweet_count ?? 0,
-        synced_at: syncedAt,
-      });
-    }
+        const total = saved + bookmarks.length;
+        onProgress?.({ phase: "saving", fetched, saved, total });
+        for (const { bookmark, position } of bookmarks) {
+          await saveBookmark(bookmark, position, source, syncedAt, anchor);
+          saved++;
+          onProgress?.({ phase: "saving", fetched, saved, total });
+        }
+        // Only a feed that flags removals can tell that bookmarks are back:
+        // an import may well contain bookmarks since removed
+        await markBookmarksSeen(
+          source.id,
+          page.bookmarks.map((b) => b.id),
+          syncedAt,
+          source.ordered
+        );
+
+        if (mode === "incremental") {
+          return bookmarks.length > 0;
+        }
+
+        complete = page.cursor === null;
 
-    onProgress?.({
-      phase: "saving",
-      fetched: tweets.length,
-      saved: i + 1,
-      total: tweets.length,
+        // Persist the cursor only after the page is saved, so a crash or 429
+        // can pick up from here without losing bookmarks
+        if (resumable) {
+          await updateSyncState({
+            pagination_token: page.cursor,
+            backfill_started_at: page.cursor ? anchor.startedAt : null,
+            backfill_position: page.cursor ? anchor.position : null,
+          });
+        }
+      },
     });
+
+    // A full walk of the feed tells us which stored bookmarks were un-bookmarked.
+    // Everything seen during this backfill was recorded at or after its start.
+    // A walk that ran into the feed's cap (or stopped a page short of it)
+    // proves nothing about anything older.
+    const capped = anchor.position >= BOOKMARK_FEED_LIMIT - largestPage;
+    if (complete && source.ordered && !capped) {
+      removedCount = await markUnseenBookmarksRemoved(source.id, anchor.startedAt, syncedAt);
+    }
+    if (complete && source.id === "twitter") {
+      await updateSyncState({ expansions_backfill_pending: 0 });
+    }
+
+    if (options.includeThreads && source.id === "twitter") {
+      const threads = await syncThreads((checked, total) => {
+        onProgress?.({ phase: "threads", fetched: checked, saved, total });
+      });
+      threadsFound = threads.threadsFound;
+      threadsSkipped = threads.skipped;
+    }
+  } finally {
+    stopWaitUpdates();
   }
 
   // Update sync state
   await updateSyncState({ last_sync_at: syncedAt });
 
   const newTotalCount = await getBookmarkCount();
-  newCount = newTotalCount - existingCount;
-  updateCount = tweets.length - newCount;
+  const newCount = newTotalCount - existingCount;
+  const updateCount = saved - newCount;
 
   onProgress?.({
     phase: "complete",
-    fetched: tweets.length,
-    saved: tweets.length,
-    total: tweets.length,
+    fetched,
+    saved,
+    total: saved,
   });
 
   return {
+    source: source.id,
+    mode,
     newBookmarks: newCount,
     updatedBookmarks: updateCount,
+    removedBookmarks: removedCount,
+    threadsFound,
+    threadsSkipped,
     totalBookmarks: newTotalCount,
     syncedAt,
   };
@@ -105,3 +264,9 @@ export async function getLastSyncTime(): Promise<string | null> {
   const state = await getSyncState();
   return state.last_sync_at;
 }
+
+// True when a full sync was interrupted and can be resumed
+export async function hasPendingBackfill(): Promise<boolean> {
+  const state = await getSyncState();
+  return state.pagination_token !== null;
+}
@@ -0,0 +1,62 @@
+import { getConversationTweets, RECENT_SEARCH_DAYS } from "./client";
+import { getTierConfig } from "./rateLimit";
+import { countThreadCandidates, getThreadCandidates, replaceThreadTweets } from "../db/queries";
+
+export interface ThreadSyncResult {
+  checked: number;
+  threadsFound: number;
+  // Candidates older than recent search reaches; left for a tier with full-archive search
+  skipped: number;
+}
+
+// Reconstruct self-threads around bookmarked tweets, whether the bookmark is
+// the opener or a reply further down: the thread is every tweet its author
+// posted in the conversation, oldest first, minus the bookmark itself.
+export async function syncThreads(
+  onProgress?: (checked: number, total: number) => void
+): Promise<ThreadSyncResult> {
+  // Without full-archive search, only conversations the recent search window
+  // covers can be rebuilt; older ones stay unchecked instead of looking empty
+  const cutoff = getTierConfig().fullArchiveSearch
+    ? null
+    : new Date(Date.now() - RECENT_SEARCH_DAYS * 24 * 60 * 60 * 1000).toISOString();
+  const candidates = await getThreadCandidates(cutoff);
+  const skipped = cutoff ? await countThreadCandidates(cutoff) : 0;
+  const syncedAt = new Date().toISOString();
+  let threadsFound = 0;
+
+  for (let i = 0; i < candidates.length; i++) {
+    const bookmark = candidates[i];
+    if (!bookmark?.conversation_id) continue;
+    onProgress?.(i, candidates.length);
+
+    const root = bookmark.conversation_id;
+    const tweets = await getConversationTweets(root, bookmark.username);
+    // The search is already limited to the author. A reply only belongs to a
+    // self-thread if the author also wrote the conversation's first tweet.
+    const ownRoot = root === bookmark.tweet_id || tweets.some((t) => t.id === root);
+    const thread = ownRoot
+      ? tweets
+          .filter((t) => t.id !== bookmark.tweet_id)
+          .filter((t) => t.id === root || t.in_reply_to_user_id === t.author_id)
+          // Tweet IDs are time-ordered snowflakes
+          .sort((a, b) => (BigInt(a.id) < BigInt(b.id) ? -1 : 1))
+      : [];
+
+    await replaceThreadTweets(
+      bookmark.id,
+      thread.map((t, position) => ({
+        position,
+        tweet_id: t.id,
+        content: t.text,
+        created_at: t.created_at ?? null,
+      })),
+      syncedAt
+    );
+    if (thread.length > 0) threadsFound++;
+  }
+
+  onProgress?.(candidates.length, candidates.length);
+
+  return { checked: candidates.length, threadsFound, skipped };
+}
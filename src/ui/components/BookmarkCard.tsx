@@ -1,24 +1,28 @@
 import React from "react";
 import { Box, Text } from "ink";
-import type { BookmarkWithAuthor } from "../../db/queries";
+import type { BookmarkLink, BookmarkWithAuthor } from "../../db/queries";
 
 interface BookmarkCardProps {
   bookmark: BookmarkWithAuthor;
+  links?: BookmarkLink[];
   selected?: boolean;
   showStats?: boolean;
 }
 
 export function BookmarkCard({
   bookmark,
+  links = [],
   selected = false,
   showStats = true,
 }: BookmarkCardProps) {
   const displayName = bookmark.display_name || bookmark.username;
   const date = new Date(bookmark.created_at).toLocaleDateString();
-  const content =
-    bookmark.content.length > 200
-      ? bookmark.content.slice(0, 200) + "..."
-      : bookmark.content;
+  // Swap t.co short links for their expanded form
+  const text = links.reduce(
+    (acc, link) => acc.replaceAll(link.url, link.expanded_url),
+    bookmark.content
+  );
+  const content = text.length > 200 ? text.slice(0, 200) + "..." : text;
 
   return (
     <Box
@@ -39,8 +43,15 @@ export function BookmarkCard({
           {" "}
           · {date}
         </Text>
+        {bookmark.removed_at && <Text color="red"> · removed</Text>}
       </Box>
       <Text wrap="wrap">{content}</Text>
+      {links.map((link) => (
+        <Text key={link.id} color="blue" wrap="truncate">
+          ↳ {link.title ? `${link.title} · ` : ""}
+          {link.expanded_url}
+        </Text>
+      ))}
       {showStats && (
         <Box marginTop={1}>
           <Text color="gray" dimColor>
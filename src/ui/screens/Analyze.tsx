@@ -16,6 +16,13 @@ interface AnalyzeProps {
 
 type AnalyzeState = "idle" | "running" | "complete" | "error";
 
+// 95 -> "1m 35s"
+function formatDuration(seconds: number): string {
+  const total = Math.max(0, Math.round(seconds));
+  const minutes = Math.floor(total / 60);
+  return minutes > 0 ? `${minutes}m ${total % 60}s` : `${total}s`;
+}
+
 export function Analyze({ onBack }: AnalyzeProps) {
   const [state, setState] = useState<AnalyzeState>("idle");
   const [progress, setProgress] = useState<AnalysisProgress | null>(null);
@@ -141,6 +148,11 @@ export function Analyze({ onBack }: AnalyzeProps) {
               {progress.current}/{progress.total}
             </Text>
           )}
+          {progress.perSecond !== undefined && (
+            <Text color="gray">
+              {progress.perSecond.toFixed(1)} bookmarks/sec · ETA {formatDuration(progress.etaSeconds ?? 0)}
+            </Text>
+          )}
         </Box>
       )}
 
@@ -4,7 +4,14 @@ import TextInput from "ink-text-input";
 import { Header } from "../components/Header";
 import { BookmarkCard } from "../components/BookmarkCard";
 import { StatusBar } from "../components/StatusBar";
-import { getBookmarks, searchBookmarks, type BookmarkWithAuthor } from "../../db/queries";
+import {
+  getBookmarks,
+  getLinksForBookmarks,
+  searchBookmarks,
+  type BookmarkLink,
+  type BookmarkWithAuthor,
+  type RemovedFilter,
+} from "../../db/queries";
 import { hybridSearch, type SearchResult } from "../../analysis/search";
 import { hasEmbeddings } from "../../analysis/index";
 
@@ -14,8 +21,15 @@ interface BookmarksProps {
 
 const PAGE_SIZE = 5;
 
+const REMOVED_FILTER_LABELS: Record<RemovedFilter, string> = {
+  include: "",
+  exclude: " · hiding removed",
+  only: " · removed only",
+};
+
 export function Bookmarks({ onBack }: BookmarksProps) {
   const [bookmarks, setBookmarks] = useState<BookmarkWithAuthor[]>([]);
+  const [links, setLinks] = useState<Map<number, BookmarkLink[]>>(new Map());
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [page, setPage] = useState(0);
   const [searchMode, setSearchMode] = useState(false);
@@ -23,20 +37,25 @@ export function Bookmarks({ onBack }: BookmarksProps) {
   const [loading, setLoading] = useState(true);
   const [useSemanticSearch, setUseSemanticSearch] = useState(false);
   const [searchType, setSearchType] = useState<"keyword" | "semantic">("keyword");
+  const [removedFilter, setRemovedFilter] = useState<RemovedFilter>("include");
 
   useEffect(() => {
     hasEmbeddings().then(setUseSemanticSearch);
   }, []);
 
+  useEffect(() => {
+    getLinksForBookmarks(bookmarks.map((b) => b.id)).then(setLinks);
+  }, [bookmarks]);
+
   const loadBookmarks = useCallback(async () => {
     setLoading(true);
     try {
-      const data = await getBookmarks(PAGE_SIZE, page * PAGE_SIZE);
+      const data = await getBookmarks(PAGE_SIZE, page * PAGE_SIZE, removedFilter);
       setBookmarks(data);
     } finally {
       setLoading(false);
     }
-  }, [page]);
+  }, [page, removedFilter]);
 
   const handleSearch = useCallback(async () => {
     if (!searchQuery.trim()) {
@@ -47,9 +66,19 @@ export function Bookmarks({ onBack }: BookmarksProps) {
     try {
       if (searchType === "semantic" && useSemanticSearch) {
         const results = await hybridSearch(searchQuery, PAGE_SIZE);
-        setBookmarks(results.map((r) => r.bookmark));
+        setBookmarks(
+          results
+            .map((r) => r.bookmark)
+            .filter((b) =>
+              removedFilter === "include"
+                ? true
+                : removedFilter === "only"
+                  ? b.removed_at !== null
+                  : b.removed_at === null
+            )
+        );
       } else {
-        const data = await searchBookmarks(searchQuery);
+        const data = await searchBookmarks(searchQuery, removedFilter);
         setBookmarks(data.slice(0, PAGE_SIZE));
       }
       setPage(0);
@@ -57,7 +86,7 @@ export function Bookmarks({ onBack }: BookmarksProps) {
     } finally {
       setLoading(false);
     }
-  }, [searchQuery, loadBookmarks, searchType, useSemanticSearch]);
+  }, [searchQuery, loadBookmarks, searchType, useSemanticSearch, removedFilter]);
 
   useEffect(() => {
     if (!searchMode) {
@@ -82,6 +111,14 @@ export function Bookmarks({ onBack }: BookmarksProps) {
       onBack();
     } else if (input === "/") {
       setSearchMode(true);
+    } else if (input === "h") {
+      setRemovedFilter(removedFilter === "exclude" ? "include" : "exclude");
+      setPage(0);
+      setSelectedIndex(0);
+    } else if (input === "r") {
+      setRemovedFilter(removedFilter === "only" ? "include" : "only");
+      setPage(0);
+      setSelectedIndex(0);
     } else if (input === "s" && useSemanticSearch) {
       setSearchType(searchType === "keyword" ? "semantic" : "keyword");
     } else if (key.upArrow || input === "k") {
@@ -115,7 +152,7 @@ export function Bookmarks({ onBack }: BookmarksProps) {
         subtitle={
           searchQuery
             ? `${searchType === "semantic" ? "Semantic" : "Keyword"} search: "${searchQuery}"`
-            : `Page ${page + 1}${useSemanticSearch ? ` · ${searchType} mode` : ""}`
+            : `Page ${page + 1}${useSemanticSearch ? ` · ${searchType} mode` : ""}${REMOVED_FILTER_LABELS[removedFilter]}`
         }
       />
 
@@ -138,6 +175,7 @@ export function Bookmarks({ onBack }: BookmarksProps) {
             <BookmarkCard
               key={bookmark.id}
               bookmark={bookmark}
+              links={links.get(bookmark.id)}
               selected={index === selectedIndex}
             />
           ))}
@@ -148,7 +186,7 @@ export function Bookmarks({ onBack }: BookmarksProps) {
         hint={
           searchMode
             ? "Enter to search · Esc to cancel"
-            : `/ search${useSemanticSearch ? " · s toggle semantic" : ""} · j/k navigate · n/p page · b back`
+            : `/ search${useSemanticSearch ? " · s toggle semantic" : ""} · h hide removed · r removed only · j/k navigate · n/p page · b back`
         }
       />
     </Box>
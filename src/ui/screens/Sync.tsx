@@ -1,5 +1,6 @@
 import React, { useEffect, useState, useCallback } from "react";
 import { Box, Text, useInput } from "ink";
+import TextInput from "ink-text-input";
 import { Header } from "../components/Header";
 import { StatusBar } from "../components/StatusBar";
 import {
@@ -9,7 +10,18 @@ import {
   exchangeCodeForToken,
   logout,
 } from "../../twitter/auth";
-import { syncBookmarks, getLastSyncTime, type SyncProgress, type SyncResult } from "../../twitter/sync";
+import { RECENT_SEARCH_DAYS, resetClientState } from "../../twitter/client";
+import {
+  syncBookmarks,
+  getLastSyncTime,
+  hasPendingBackfill,
+  type SyncMode,
+  type SyncProgress,
+  type SyncResult,
+} from "../../twitter/sync";
+import { getApiTier, getBookmarksBudget } from "../../twitter/rateLimit";
+import { createSource, SOURCE_KINDS, type SourceKind } from "../../sources";
+import type { RateLimit } from "../../db/queries";
 
 interface SyncProps {
   onBack: () => void;
@@ -20,23 +32,33 @@ type SyncState = "idle" | "connecting" | "syncing" | "complete" | "error";
 export function Sync({ onBack }: SyncProps) {
   const [authenticated, setAuthenticated] = useState<boolean>(false);
   const [lastSync, setLastSync] = useState<string | null>(null);
+  const [pendingBackfill, setPendingBackfill] = useState(false);
+  const [includeThreads, setIncludeThreads] = useState(false);
+  const [sourceKind, setSourceKind] = useState<SourceKind>("twitter");
+  const [pathInput, setPathInput] = useState(false);
+  const [sourcePath, setSourcePath] = useState("");
   const [syncState, setSyncState] = useState<SyncState>("idle");
   const [progress, setProgress] = useState<SyncProgress | null>(null);
   const [result, setResult] = useState<SyncResult | null>(null);
   const [error, setError] = useState<string | undefined>();
   const [loading, setLoading] = useState(true);
+  const [budget, setBudget] = useState<RateLimit | null>(null);
   const hasBearerToken = !!process.env.X_CONSOLE_BEARER_TOKEN;
+  const sourceInfo = SOURCE_KINDS.find((s) => s.kind === sourceKind) ?? SOURCE_KINDS[0]!;
+  const canSyncTwitter = authenticated || hasBearerToken;
 
   useEffect(() => {
     async function load() {
       setLoading(true);
       try {
-        const [auth, sync] = await Promise.all([
+        const [auth, sync, pending] = await Promise.all([
           isAuthenticated(),
           getLastSyncTime(),
+          hasPendingBackfill(),
         ]);
         setAuthenticated(auth);
         setLastSync(sync);
+        setPendingBackfill(pending);
       } finally {
         setLoading(false);
       }
@@ -44,6 +66,11 @@ export function Sync({ onBack }: SyncProps) {
     load();
   }, []);
 
+  // Re-read the API budget as pages come in and when a sync ends
+  useEffect(() => {
+    getBookmarksBudget().then(setBudget).catch(() => setBudget(null));
+  }, [syncState, progress?.phase, progress?.fetched]);
+
   const handleConnect = useCallback(async () => {
     setSyncState("connecting");
     setError(undefined);
@@ -62,8 +89,9 @@ export function Sync({ onBack }: SyncProps) {
     }
   }, []);
 
-  const handleSync = useCallback(async () => {
-    if (!authenticated && !hasBearerToken) return;
+  const handleSync = useCallback(async (mode: SyncMode) => {
+    if (sourceKind === "twitter" && !authenticated && !hasBearerToken) return;
+    if (sourceInfo.needsPath && !sourcePath.trim()) return;
 
     setSyncState("syncing");
     setError(undefined);
@@ -71,18 +99,35 @@ export function Sync({ onBack }: SyncProps) {
     setResult(null);
 
     try {
-      const syncResult = await syncBookmarks((p) => setProgress(p));
+      const syncResult = await syncBookmarks((p) => setProgress(p), {
+        mode,
+        includeThreads,
+        source: createSource(sourceKind, sourcePath.trim()),
+      });
       setResult(syncResult);
       setLastSync(syncResult.syncedAt);
       setSyncState("complete");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Sync failed");
       setSyncState("error");
+    } finally {
+      setPendingBackfill(await hasPendingBackfill());
     }
-  }, [authenticated]);
+  }, [authenticated, includeThreads, sourceKind, sourceInfo, sourcePath]);
+
+  const cycleSource = () => {
+    const index = SOURCE_KINDS.findIndex((s) => s.kind === sourceKind);
+    const next = SOURCE_KINDS[(index + 1) % SOURCE_KINDS.length];
+    if (next) {
+      setSourceKind(next.kind);
+      setSourcePath("");
+      setResult(null);
+    }
+  };
 
   const handleDisconnect = useCallback(async () => {
     await logout();
+    resetClientState();
     setAuthenticated(false);
     setSyncState("idle");
   }, []);
@@ -92,12 +137,34 @@ export function Sync({ onBack }: SyncProps) {
       return; // Don't allow navigation during sync
     }
 
+    if (pathInput) {
+      if (key.escape) {
+        setPathInput(false);
+      } else if (key.return) {
+        setPathInput(false);
+        handleSync("full");
+      }
+      return;
+    }
+
     if (key.escape || input === "b") {
       onBack();
+    } else if (input === "p") {
+      cycleSource();
+    } else if (sourceInfo.needsPath) {
+      if (input === "s") {
+        setPathInput(true);
+      }
     } else if (input === "c" && !authenticated && !hasBearerToken) {
       handleConnect();
-    } else if (input === "s" && (authenticated || hasBearerToken)) {
-      handleSync();
+    } else if (input === "s" && canSyncTwitter) {
+      handleSync("incremental");
+    } else if (input === "f" && canSyncTwitter) {
+      handleSync("full");
+    } else if (input === "r" && pendingBackfill && canSyncTwitter) {
+      handleSync("resume");
+    } else if (input === "t") {
+      setIncludeThreads(!includeThreads);
     } else if (input === "d" && authenticated && !hasBearerToken) {
       handleDisconnect();
     }
@@ -108,6 +175,19 @@ export function Sync({ onBack }: SyncProps) {
     return new Date(date).toLocaleString();
   };
 
+  const formatTime = (date: string) =>
+    new Date(date).toLocaleTimeString([], { hour: "2-digit", minute: "2-digit" });
+
+  const formatBudget = (rateLimit: RateLimit | null) => {
+    if (!rateLimit) return "unknown until the first request";
+    if (new Date(rateLimit.reset_at).getTime() <= Date.now()) {
+      return rateLimit.limit_total !== null
+        ? `${rateLimit.limit_total} requests left (window reset)`
+        : "window reset";
+    }
+    return `${rateLimit.remaining} requests left, resets at ${formatTime(rateLimit.reset_at)}`;
+  };
+
   if (loading) {
     return (
       <Box flexDirection="column" padding={1}>
@@ -122,6 +202,10 @@ export function Sync({ onBack }: SyncProps) {
       <Header title="Sync" subtitle="Twitter connection & bookmark sync" />
 
       <Box marginBottom={1} flexDirection="column">
+        <Text>
+          Source: <Text color="cyan">{sourceInfo.label}</Text>
+          <Text color="gray"> ([p] to change)</Text>
+        </Text>
         <Text>
           Status:{" "}
           <Text color={authenticated ? "green" : "yellow"}>
@@ -135,6 +219,16 @@ export function Sync({ onBack }: SyncProps) {
         <Text>
           Last sync: <Text color="cyan">{formatLastSync(lastSync)}</Text>
         </Text>
+        {sourceKind === "twitter" && (
+          <Text>
+            API budget:{" "}
+            <Text color={budget?.remaining === 0 ? "yellow" : "cyan"}>{formatBudget(budget)}</Text>
+            <Text color="gray"> ({getApiTier()} tier)</Text>
+          </Text>
+        )}
+        {pendingBackfill && (
+          <Text color="yellow">A full resync was interrupted and can be resumed.</Text>
+        )}
       </Box>
 
       {syncState === "connecting" && (
@@ -150,26 +244,70 @@ export function Sync({ onBack }: SyncProps) {
           <Text color="yellow">
             {progress.phase === "fetching"
               ? `Fetching bookmarks... ${progress.fetched}`
-              : `Saving... ${progress.saved}/${progress.total}`}
+              : progress.phase === "waiting" && progress.resumeAt
+                ? `Rate limited, waiting until ${formatTime(progress.resumeAt)}... (${progress.fetched} fetched so far)`
+                : progress.phase === "threads"
+                  ? `Fetching threads... ${progress.fetched}/${progress.total}`
+                  : `Saving... ${progress.saved}/${progress.total}`}
           </Text>
         </Box>
       )}
 
       {syncState === "complete" && result && (
         <Box marginY={1} flexDirection="column">
-          <Text color="green">Sync complete!</Text>
+          <Text color="green">
+            {result.source !== "twitter"
+              ? "Import complete!"
+              : result.mode === "incremental"
+                ? "Sync complete!"
+                : "Full resync complete!"}
+          </Text>
           <Text>
-            New: {result.newBookmarks} · Updated: {result.updatedBookmarks} · Total: {result.totalBookmarks}
+            New: {result.newBookmarks} · Updated: {result.updatedBookmarks} · Removed:{" "}
+            {result.removedBookmarks} · Total: {result.totalBookmarks}
           </Text>
+          {result.threadsFound > 0 && <Text>Threads reconstructed: {result.threadsFound}</Text>}
+          {result.threadsSkipped > 0 && (
+            <Text color="gray">
+              Threads older than {RECENT_SEARCH_DAYS} days skipped: {result.threadsSkipped} (needs the pro
+              tier's full-archive search)
+            </Text>
+          )}
         </Box>
       )}
 
       <Box marginTop={1} flexDirection="column">
         <Text bold>Actions</Text>
-        {hasBearerToken ? (
-          <Text>
-            <Text color="cyan">[s]</Text> Sync bookmarks now
-          </Text>
+        {sourceInfo.needsPath ? (
+          <>
+            <Text>
+              <Text color="cyan">[s]</Text> Import from {sourceInfo.label}
+            </Text>
+            {pathInput && (
+              <Box>
+                <Text>Path: </Text>
+                <TextInput
+                  value={sourcePath}
+                  onChange={setSourcePath}
+                  placeholder={sourceKind === "archive" ? "path/to/twitter-archive" : "bookmarks.ndjson"}
+                />
+              </Box>
+            )}
+          </>
+        ) : hasBearerToken ? (
+          <>
+            <Text>
+              <Text color="cyan">[s]</Text> Sync new bookmarks
+            </Text>
+            <Text>
+              <Text color="cyan">[f]</Text> Full resync (backfill everything)
+            </Text>
+            {pendingBackfill && (
+              <Text>
+                <Text color="cyan">[r]</Text> Resume backfill
+              </Text>
+            )}
+          </>
         ) : !authenticated ? (
           <Text>
             <Text color="cyan">[c]</Text> Connect Twitter account (OAuth)
@@ -177,8 +315,16 @@ export function Sync({ onBack }: SyncProps) {
         ) : (
           <>
             <Text>
-              <Text color="cyan">[s]</Text> Sync bookmarks now
+              <Text color="cyan">[s]</Text> Sync new bookmarks
+            </Text>
+            <Text>
+              <Text color="cyan">[f]</Text> Full resync (backfill everything)
             </Text>
+            {pendingBackfill && (
+              <Text>
+                <Text color="cyan">[r]</Text> Resume backfill
+              </Text>
+            )}
             <Text>
               <Text color="red">[d]</Text> Disconnect account
             </Text>
@@ -186,9 +332,24 @@ export function Sync({ onBack }: SyncProps) {
         )}
       </Box>
 
+      {sourceKind === "twitter" && (
+        <Box marginTop={1}>
+          <Text>
+            <Text color="cyan">[t]</Text> Include threads:{" "}
+            <Text color={includeThreads ? "green" : "gray"}>{includeThreads ? "on" : "off"}</Text>
+          </Text>
+        </Box>
+      )}
+
       <StatusBar
         error={error}
-        hint={syncState === "syncing" ? "Syncing..." : "b to go back"}
+        hint={
+          syncState === "syncing"
+            ? "Syncing..."
+            : pathInput
+              ? "Enter to import · Esc to cancel"
+              : "p change source · b to go back"
+        }
       />
     </Box>
   );
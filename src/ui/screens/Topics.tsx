@@ -2,7 +2,14 @@ import React, { useEffect, useState } from "react";
 import { Box, Text, useInput } from "ink";
 import { Header } from "../components/Header";
 import { StatusBar } from "../components/StatusBar";
-import { getTopics, getTopicWithBookmarks, type Topic, type BookmarkWithAuthor } from "../../db/queries";
+import {
+  getTopics,
+  getTopicWithBookmarks,
+  getLinksForBookmarks,
+  type Topic,
+  type BookmarkLink,
+  type BookmarkWithAuthor,
+} from "../../db/queries";
 import { BookmarkCard } from "../components/BookmarkCard";
 
 interface TopicsProps {
@@ -17,6 +24,7 @@ export function Topics({ onBack }: TopicsProps) {
   const [viewMode, setViewMode] = useState<ViewMode>("list");
   const [selectedTopic, setSelectedTopic] = useState<Topic | null>(null);
   const [topicBookmarks, setTopicBookmarks] = useState<BookmarkWithAuthor[]>([]);
+  const [links, setLinks] = useState<Map<number, BookmarkLink[]>>(new Map());
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -39,6 +47,7 @@ export function Topics({ onBack }: TopicsProps) {
       if (result) {
         setSelectedTopic(result.topic);
         setTopicBookmarks(result.bookmarks);
+        setLinks(await getLinksForBookmarks(result.bookmarks.slice(0, 5).map((b) => b.id)));
         setViewMode("detail");
       }
     } finally {
@@ -99,6 +108,7 @@ export function Topics({ onBack }: TopicsProps) {
               <BookmarkCard
                 key={bookmark.id}
                 bookmark={bookmark}
+                links={links.get(bookmark.id)}
                 showStats={false}
               />
             ))}
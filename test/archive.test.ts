@@ -0,0 +1,101 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "path";
+import { getBookmarks } from "../src/db/queries";
+import { createArchiveSource } from "../src/sources";
+import { parseArchiveFile, readArchive, snowflakeToDate } from "../src/twitter/archive";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+const ARCHIVE = join(import.meta.dir, "fixtures", "archive");
+
+describe("parseArchiveFile", () => {
+  test("strips the window.YTD assignment", () => {
+    const source = 'window.YTD.like.part0 = [\n  { "like" : { "tweetId" : "1" } }\n];\n';
+    expect(parseArchiveFile(source)).toEqual([{ like: { tweetId: "1" } }]);
+  });
+
+  test("rejects files that aren't archive data", () => {
+    expect(() => parseArchiveFile('[{ "like": {} }]')).toThrow("missing window.YTD prefix");
+  });
+});
+
+describe("snowflakeToDate", () => {
+  test("reads the creation time from a tweet ID", () => {
+    expect(snowflakeToDate("1790000000000000005")).toBe("2024-05-13T12:43:51.248Z");
+  });
+});
+
+describe("readArchive", () => {
+  test("merges bookmarks and likes, newest bookmark first", async () => {
+    const bookmarks = await readArchive(ARCHIVE);
+
+    expect(bookmarks.map((b) => b.id)).toEqual([
+      "1790000000000000005",
+      "1790000000000000050",
+      "1790000000000000060",
+      "1790000000000000070",
+    ]);
+    // Bookmarked without text, liked with it
+    expect(bookmarks[0]).toMatchObject({
+      text: "Shipping a Rust rewrite of our indexer https://t.co/abc",
+      author: { id: null, username: "alice" },
+      url: "https://twitter.com/alice/status/1790000000000000005",
+      created_at: "2024-05-13T12:43:51.248Z",
+      like_count: undefined,
+    });
+  });
+
+  test("fills in the account's own tweets", async () => {
+    const own = (await readArchive(ARCHIVE)).find((b) => b.id === "1790000000000000050");
+
+    expect(own).toMatchObject({
+      text: "Notes from rebuilding the bookmark index https://t.co/notes",
+      created_at: "2024-05-01T10:00:00.000Z",
+      author: { id: "1000", username: "indexer_owner", display_name: "Indexer Owner" },
+      like_count: 3,
+      retweet_count: 1,
+    });
+    expect(own?.links?.map((l) => l.expanded_url)).toEqual(["https://example.com/index-notes"]);
+  });
+
+  test("leaves authors it can't tell unknown", async () => {
+    const bookmarks = await readArchive(ARCHIVE);
+    expect(bookmarks.find((b) => b.id === "1790000000000000060")?.author).toMatchObject({ username: "carol" });
+    expect(bookmarks.find((b) => b.id === "1790000000000000070")).toMatchObject({ text: null, author: null });
+  });
+
+  test("reads only the requested parts", async () => {
+    const bookmarks = await readArchive(ARCHIVE, { include: ["tweets"] });
+    expect(bookmarks.map((b) => b.id)).toEqual(["1790000000000000050"]);
+  });
+});
+
+describe("archive import", () => {
+  useTestEnv();
+
+  test("keeps what the API synced", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const result = await syncBookmarks(undefined, { source: createArchiveSource(ARCHIVE) });
+
+    expect(result).toMatchObject({ newBookmarks: 3, updatedBookmarks: 1, removedBookmarks: 0 });
+    const bookmarks = await getBookmarks();
+    expect(bookmarks.find((b) => b.tweet_id === "1790000000000000005")).toMatchObject({
+      content: "Shipping a Rust rewrite of our indexer https://t.co/abc",
+      username: "alice",
+      display_name: "Alice",
+      like_count: 40,
+      retweet_count: 4,
+      conversation_id: "1790000000000000005",
+      created_at: "2024-05-05T12:00:00.000Z",
+      url: "https://twitter.com/alice/status/1790000000000000005",
+    });
+    expect(bookmarks.find((b) => b.tweet_id === "1790000000000000060")).toMatchObject({
+      username: "carol",
+      like_count: 0,
+    });
+    expect(bookmarks.find((b) => b.tweet_id === "1790000000000000070")).toMatchObject({
+      username: "unknown",
+      content: "",
+    });
+  });
+});
@@ -0,0 +1,47 @@
+import { describe, expect, test } from "bun:test";
+import { getAccessToken, isAuthenticated } from "../src/twitter/auth";
+import { getMe } from "../src/twitter/client";
+import { useTestEnv } from "./helpers";
+
+async function readTokens(): Promise<{ access_token: string; refresh_token: string }> {
+  return Bun.file(process.env.TWITTER_TOKENS_PATH!).json();
+}
+
+describe("token refresh", () => {
+  const env = useTestEnv();
+
+  test("uses a stored token that is still valid", async () => {
+    expect(await isAuthenticated()).toBe(true);
+    expect(await getAccessToken()).toBe("test-access-token");
+  });
+
+  test("refreshes a token about to expire and saves the rotated tokens", async () => {
+    await env.writeTokens(60 * 1000);
+
+    expect(await getAccessToken()).toBe("test-access-token-1");
+    expect(await readTokens()).toMatchObject({
+      access_token: "test-access-token-1",
+      refresh_token: "test-refresh-token-1",
+    });
+  });
+
+  test("refreshes and retries once when the API rejects the token", async () => {
+    env.api.revokeAccessToken();
+
+    const me = await getMe();
+    expect(me.username).toBe("indexer_owner");
+    expect(env.api.requests.filter((r) => r === "/2/users/me")).toHaveLength(2);
+    expect((await readTokens()).access_token).toBe("test-access-token-1");
+  });
+
+  test("fails with a 401 that survives a refresh", async () => {
+    env.api.failNext(401, { times: 2 });
+    await expect(getMe()).rejects.toThrow("Twitter API error (401)");
+  });
+
+  test("fails when the refresh token is rejected", async () => {
+    await env.writeTokens(60 * 1000);
+    env.api.refreshToken = "rotated-elsewhere";
+    await expect(getAccessToken()).rejects.toThrow("Token refresh failed");
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, expect, test } from "bun:test";
+import { runCli, type CliIO } from "../src/cli";
+import { getDb, initDb } from "../src/db/client";
+import { storeEmbedding, useTestEnv } from "./helpers";
+
+async function run(...argv: string[]): Promise<{ code: number; stdout: string; stderr: string }> {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const io: CliIO = {
+    stdout: (text) => stdout.push(text),
+    stderr: (text) => stderr.push(text),
+  };
+  const code = await runCli(argv, io);
+  // runCli closes the database when it's done; reopen it for the test's own queries
+  await initDb();
+  return { code, stdout: stdout.join("\n"), stderr: stderr.join("\n") };
+}
+
+describe("cli", () => {
+  useTestEnv();
+
+  test("prints usage for help and rejects unknown commands", async () => {
+    const help = await run("help");
+    expect(help.code).toBe(0);
+    expect(help.stdout).toContain("search <query>");
+
+    const unknown = await run("frobnicate");
+    expect(unknown.code).toBe(2);
+    expect(unknown.stderr).toContain("Unknown command: frobnicate");
+  });
+
+  test("sync --json prints the sync result", async () => {
+    const { code, stdout } = await run("sync", "--json");
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toMatchObject({
+      source: "twitter",
+      mode: "incremental",
+      newBookmarks: 5,
+    });
+  });
+
+  test("stats reports counts as JSON", async () => {
+    await run("sync");
+    const { code, stdout } = await run("stats", "--json");
+
+    expect(code).toBe(0);
+    expect(JSON.parse(stdout)).toEqual({
+      totalBookmarks: 5,
+      totalTopics: 0,
+      pendingTasks: 0,
+      totalIdeas: 0,
+    });
+  });
+
+  test("keyword search finds indexed bookmarks", async () => {
+    await run("sync");
+
+    const { code, stdout } = await run("search", "sqlite", "--mode", "keyword", "--json");
+
+    expect(code).toBe(0);
+    const results = JSON.parse(stdout) as { id: string; url: string }[];
+    expect(results.map((r) => r.id)).toEqual(["1790000000000000002"]);
+    expect(results[0]?.url).toBe("https://x.com/bob/status/1790000000000000002");
+  });
+
+  test("export writes every bookmark as NDJSON", async () => {
+    await run("sync");
+    const { code, stdout } = await run("export", "--format", "ndjson");
+
+    expect(code).toBe(0);
+    const lines = stdout.split("\n").map((line) => JSON.parse(line));
+    expect(lines).toHaveLength(5);
+    expect(lines[0]).toMatchObject({
+      id: "1790000000000000005",
+      author: { id: "2001", username: "alice" },
+      links: [{ expanded_url: "https://example.com/rust-indexer" }],
+    });
+  });
+
+  test("migrate status lists applied migrations", async () => {
+    const { code, stdout } = await run("migrate", "status", "--json");
+
+    expect(code).toBe(0);
+    const status = JSON.parse(stdout);
+    expect(status[0]).toMatchObject({ version: 1, name: "initial schema" });
+    expect(status.every((m: any) => m.applied_at !== null)).toBe(true);
+    expect((await run("migrate")).stdout).toBe("Schema is up to date");
+  });
+
+  test("ann bench compares vector search methods against the exact scan", async () => {
+    await run("sync");
+    const bookmarks = await getDb().execute("SELECT id FROM bookmarks");
+    for (const row of bookmarks.rows) {
+      const id = row.id as number;
+      const vector = Array.from({ length: 384 }, (_, i) => (i === id ? 1 : i === 0 ? 0.5 : 0));
+      await storeEmbedding(id, vector);
+    }
+
+    const { code, stdout } = await run("ann", "bench", "--queries", "3", "--limit", "2", "--json");
+
+    expect(code).toBe(0);
+    const result = JSON.parse(stdout);
+    expect(result).toMatchObject({ vectors: 5, queries: 3, limit: 2 });
+    expect(result.methods.map((m: any) => [m.method, m.error, m.recall])).toEqual([
+      ["native", null, 1],
+      ["hnsw", null, 1],
+      ["scan", null, 1],
+    ]);
+  });
+
+  test("usage errors exit with 2 and failures with 1", async () => {
+    expect((await run("search")).code).toBe(2);
+    expect((await run("search", "x", "--mode", "fuzzy")).code).toBe(2);
+    expect((await run("stats", "--bogus")).code).toBe(2);
+
+    const failed = await run("sync", "--source", "file", "--path", "/nonexistent/bookmarks.json");
+    expect(failed.code).toBe(1);
+    expect(failed.stderr).toStartWith("Error:");
+  });
+});
@@ -0,0 +1,117 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "path";
+import { runDaemon, runSyncCycle, type LogEntry } from "../src/daemon";
+import { saveRateLimit, updateSyncState } from "../src/db/queries";
+import { useTestEnv } from "./helpers";
+
+function collectLogs(): { logs: LogEntry[]; log: (entry: LogEntry) => void } {
+  const logs: LogEntry[] = [];
+  return { logs, log: (entry) => logs.push(entry) };
+}
+
+describe("daemon", () => {
+  const env = useTestEnv();
+
+  test("a cycle syncs new bookmarks and logs the result", async () => {
+    const { logs, log } = collectLogs();
+    await runDaemon({ once: true, embed: false, log });
+
+    expect(logs.map((l) => l.event)).toEqual([
+      "daemon.start",
+      "sync.start",
+      "sync.complete",
+      "daemon.stop",
+    ]);
+    expect(logs[1]).toMatchObject({ level: "info", mode: "incremental" });
+    expect(logs[2]).toMatchObject({ newBookmarks: 5, totalBookmarks: 5 });
+    expect(typeof logs[2]?.durationMs).toBe("number");
+  });
+
+  test("resumes an interrupted backfill first", async () => {
+    await updateSyncState({
+      pagination_token: "3",
+      backfill_started_at: new Date().toISOString(),
+      backfill_position: 3,
+    });
+    const { logs, log } = collectLogs();
+    const cycle = await runSyncCycle({ embed: false, log });
+
+    expect(logs[0]).toMatchObject({ event: "sync.start", mode: "resume" });
+    expect(cycle.sync?.newBookmarks).toBe(2);
+  });
+
+  test("defers the sync while the API budget is exhausted", async () => {
+    const resetAt = new Date(Date.now() + 60 * 60 * 1000).toISOString();
+    await saveRateLimit({
+      endpoint: "/users/:id/bookmarks",
+      limit_total: 180,
+      remaining: 0,
+      reset_at: resetAt,
+      updated_at: new Date().toISOString(),
+    });
+    const { logs, log } = collectLogs();
+    const cycle = await runSyncCycle({ embed: false, log });
+
+    expect(cycle).toEqual({ sync: null, embedded: 0, deferredUntil: resetAt });
+    expect(logs).toEqual([expect.objectContaining({ event: "sync.deferred", resumeAt: resetAt })]);
+    expect(env.api.requests).toHaveLength(0);
+  });
+
+  test("logs failed cycles without stopping", async () => {
+    env.api.failNext(503, { times: 2 });
+    const { logs, log } = collectLogs();
+    await runDaemon({ once: true, embed: false, log });
+
+    const error = logs.find((l) => l.event === "cycle.error");
+    expect(error).toMatchObject({ level: "error" });
+    expect(String(error?.error)).toContain("(503)");
+    expect(logs.at(-1)?.event).toBe("daemon.stop");
+  });
+
+  test("stops while sleeping when aborted", async () => {
+    const controller = new AbortController();
+    const { logs } = collectLogs();
+    await runDaemon({
+      intervalMinutes: 60,
+      embed: false,
+      signal: controller.signal,
+      log: (entry) => {
+        logs.push(entry);
+        if (entry.event === "daemon.sleep") controller.abort();
+      },
+    });
+
+    expect(logs.map((l) => l.event)).toEqual([
+      "daemon.start",
+      "sync.start",
+      "sync.complete",
+      "daemon.sleep",
+      "daemon.stop",
+    ]);
+  });
+
+  test("writes nothing but JSON lines to stdout", async () => {
+    const daemon = Bun.spawn(
+      ["bun", join(import.meta.dir, "fixtures", "daemonOnce.ts")],
+      { env: { ...process.env }, stdout: "pipe", stderr: "pipe" }
+    );
+    const timeout = setTimeout(() => daemon.kill(), 30_000);
+    const [stdout, stderr] = await Promise.all([
+      new Response(daemon.stdout).text(),
+      new Response(daemon.stderr).text(),
+      daemon.exited,
+    ]);
+    clearTimeout(timeout);
+
+    expect({ code: daemon.exitCode, stderr }).toMatchObject({ code: 0 });
+    // The API client's debug output is still there, on stderr
+    expect(stderr).toContain("[Debug]");
+    const lines = stdout.trim().split("\n");
+    expect(lines.map((line) => (JSON.parse(line) as LogEntry).event)).toEqual([
+      "daemon.start",
+      "sync.start",
+      "sync.complete",
+      "daemon.stop",
+    ]);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, test } from "bun:test";
+import { buildDocument, documentHash, getBookmarkDocuments, normalizeTweetText } from "../src/analysis/document";
+import { getDb } from "../src/db/client";
+import { UNKNOWN_AUTHOR, upsertAuthor } from "../src/db/queries";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+describe("embedding documents", () => {
+  test("normalizes tweet markup", () => {
+    expect(normalizeTweetText("Tips &amp; tricks from @rust_lang on #MachineLearning https://t.co/Ab12")).toBe(
+      "Tips & tricks from @rust_lang on Machine Learning"
+    );
+    expect(normalizeTweetText("mail me@example.com about #1 &lt;3 &#8212; ok")).toBe(
+      "mail me@example.com about #1 <3 — ok"
+    );
+    expect(normalizeTweetText("one  \n\n\n\n two https://t.co/x")).toBe("one\n\ntwo");
+  });
+
+  test("follows mentions with display names it knows", () => {
+    const names = new Map([["rust_lang", "Rust Language"]]);
+    expect(normalizeTweetText("@Rust_Lang and @bob, not me@rust_lang.org", names)).toBe(
+      "@Rust_Lang (Rust Language) and @bob, not me@rust_lang.org"
+    );
+  });
+
+  test("adds the author, quoted tweets, thread and link titles", () => {
+    const document = buildDocument({
+      content: "Worth reading https://t.co/abc",
+      username: "alice",
+      display_name: "Alice",
+      links: [
+        { title: "Rewriting the indexer in Rust", display_url: "example.com/rust" },
+        { title: null, display_url: "example.com/other" },
+      ],
+      quoted: [{ author_username: "bob", content: "Original &amp; take" }],
+      thread_text: "Part two",
+    });
+    expect(document).toBe(
+      [
+        "Alice @alice:",
+        "Worth reading",
+        "Quoting @bob: Original & take",
+        "Part two",
+        "Link: Rewriting the indexer in Rust",
+        "Link: example.com/other",
+      ].join("\n\n")
+    );
+    expect(documentHash(document)).toBe(documentHash(document));
+    expect(documentHash(document)).not.toBe(documentHash(`${document} `));
+  });
+
+  describe("from the database", () => {
+    useTestEnv();
+
+    test("builds documents from synced bookmarks", async () => {
+      await syncBookmarks(undefined, { mode: "full" });
+      const documents = await getBookmarkDocuments();
+      expect(documents).toHaveLength(5);
+      expect(documents.map((d) => d.document)).toContain(
+        "Alice @alice:\n\nShipping a Rust rewrite of our indexer\n\nLink: Rewriting the indexer in Rust"
+      );
+      expect(documents.map((d) => d.document)).toContain(
+        "Alice @alice:\n\nHot take: you don't need a vector database\n\nQuoting @bob: Original take on vector databases"
+      );
+      expect(documents.every((d) => d.embedding_hash === null)).toBe(true);
+    });
+
+    test("names mentioned accounts the authors table knows", async () => {
+      await syncBookmarks(undefined, { mode: "full" });
+      await upsertAuthor({ twitter_id: "3001", username: "rust_lang", display_name: "Rust Language", avatar_url: null });
+      await upsertAuthor(UNKNOWN_AUTHOR);
+      await getDb().execute({
+        sql: "UPDATE bookmarks SET content = ? WHERE tweet_id = ?",
+        args: ["Thanks @Rust_Lang, @bob, @carol and @unknown", "1790000000000000001"],
+      });
+
+      const documents = await getBookmarkDocuments();
+      expect(documents.map((d) => d.document).join("\n")).toContain(
+        // Bob's name would only repeat the handle
+        "Thanks @Rust_Lang (Rust Language), @bob, @carol and @unknown"
+      );
+    });
+  });
+});
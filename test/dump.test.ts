@@ -0,0 +1,129 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { join } from "path";
+import { closeDb, getDb, initDb } from "../src/db/client";
+import {
+  createItem,
+  createTopic,
+  getBookmarks,
+  getItemsForBookmarks,
+  getTopicNamesForBookmarks,
+  linkBookmarkToTopic,
+} from "../src/db/queries";
+import {
+  dumpDatabase,
+  formatDumpJson,
+  formatDumpNdjson,
+  parseDump,
+  restoreDump,
+  writeDumpCsv,
+  type DatabaseDump,
+} from "../src/export";
+import { syncBookmarks } from "../src/twitter/sync";
+import { storeEmbedding, useTestEnv } from "./helpers";
+
+describe("database dumps", () => {
+  const env = useTestEnv();
+
+  beforeEach(async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const [first] = await getBookmarks(1);
+    const topicId = await createTopic("Search", "Search engines");
+    await linkBookmarkToTopic(first!.id, topicId, 0.9);
+    await createItem({
+      bookmark_id: first!.id,
+      type: "task",
+      title: "Try the indexer",
+      description: "Compare with the old one",
+      status: "done",
+    });
+    // State the regular upserts don't carry
+    const vector = new Array<number>(384).fill(0).map((_, i) => (i === 0 ? 1 : 0));
+    await storeEmbedding(first!.id, vector);
+    await getDb().execute({
+      sql: `UPDATE bookmarks SET embedding_hash = 'hash', embedding_synced_at = synced_at, removed_at = ?
+            WHERE id = ?`,
+      args: [new Date().toISOString(), first!.id],
+    });
+  });
+
+  // Restore into a fresh database in the same temp dir
+  async function switchDatabase(name: string): Promise<void> {
+    await closeDb();
+    process.env.BOOKMARKS_DB_URL = `file:${join(env.dir, name)}`;
+    await initDb();
+  }
+
+  async function expectRestored(dump: DatabaseDump): Promise<void> {
+    const bookmarks = await getBookmarks(10);
+    expect(bookmarks.map((b) => b.tweet_id)).toEqual(dump.bookmarks.map((b) => b.tweet_id));
+
+    const first = bookmarks[0]!;
+    expect((await getTopicNamesForBookmarks([first.id])).get(first.id)).toEqual(["Search"]);
+    const [item] = (await getItemsForBookmarks([first.id])).get(first.id) ?? [];
+    expect(item).toMatchObject({ type: "task", title: "Try the indexer", status: "done" });
+
+    const again = await dumpDatabase();
+    expect(again.bookmark_links.map(({ id, bookmark_id, ...link }) => link)).toEqual(
+      dump.bookmark_links.map(({ id, bookmark_id, ...link }) => link)
+    );
+  }
+
+  test("round-trips through JSON and NDJSON", async () => {
+    const dump = await dumpDatabase();
+    expect(dump.authors).toHaveLength(2);
+    expect(dump.bookmarks).toHaveLength(5);
+
+    for (const [name, text] of [
+      ["json.db", formatDumpJson(dump)],
+      ["ndjson.db", formatDumpNdjson(dump)],
+    ] as const) {
+      await switchDatabase(name);
+      const result = await restoreDump(parseDump(text));
+      expect(result).toEqual({ authors: 2, bookmarks: 5, topics: 1, bookmark_topics: 1, items: 1 });
+      await expectRestored(dump);
+    }
+  });
+
+  test("restores exactly what was dumped", async () => {
+    // Topic and item timestamps that a restore couldn't make up
+    await getDb().execute("UPDATE topics SET created_at = '2024-01-01 10:00:00'");
+    await getDb().execute("UPDATE items SET created_at = '2024-01-02 10:00:00'");
+    const { exported_at, ...dump } = await dumpDatabase();
+
+    await switchDatabase("exact.db");
+    await restoreDump(parseDump(formatDumpJson({ ...dump, exported_at })));
+
+    const { exported_at: _, ...again } = await dumpDatabase();
+    expect(again).toEqual(dump);
+  });
+
+  test("restoring twice doesn't duplicate topics or items", async () => {
+    const dump = parseDump(formatDumpJson(await dumpDatabase()));
+    await switchDatabase("twice.db");
+    await restoreDump(dump);
+    const second = await restoreDump(dump);
+
+    expect(second.items).toBe(0);
+    const again = await dumpDatabase();
+    expect(again.topics).toHaveLength(1);
+    expect(again.items).toHaveLength(1);
+    expect(again.bookmarks).toHaveLength(5);
+  });
+
+  test("writes one CSV per table without embeddings", async () => {
+    const dir = join(env.dir, "csv");
+    const files = await writeDumpCsv(dir, await dumpDatabase());
+    expect(files).toHaveLength(10);
+
+    const items = await Bun.file(join(dir, "items.csv")).text();
+    expect(items.split("\n")[0]).toBe("id,bookmark_id,type,title,description,status,created_at");
+    const bookmarks = await Bun.file(join(dir, "bookmarks.csv")).text();
+    expect(bookmarks.split("\n")[0]).not.toContain("embedding");
+    expect(bookmarks.split("\n")).toHaveLength(7);
+  });
+
+  test("rejects files that aren't dumps", () => {
+    expect(() => parseDump('{"bookmarks": []}')).toThrow("missing version");
+    expect(() => parseDump('{"table":"nope","row":{}}')).toThrow("line 1");
+  });
+});
@@ -0,0 +1,213 @@
+import { afterAll, afterEach, describe, expect, mock, test } from "bun:test";
+import { getDb } from "../src/db/client";
+import { getBookmarks, getEmbeddingState, replaceBookmarkLinks, replaceThreadTweets } from "../src/db/queries";
+import { generateEmbeddings, type AnalysisProgress } from "../src/analysis";
+import {
+  decodeVector,
+  DEFAULT_EMBEDDING_MODEL,
+  embedBatch,
+  findEmbeddingModel,
+  resetEmbedder,
+} from "../src/analysis/embeddings";
+import { createEmbeddingPool } from "../src/analysis/embedPool";
+import { embeddingCandidates, getBookmarkDocuments } from "../src/analysis/document";
+import { cancelReembed, getReembedStatus, runReembed, startReembed } from "../src/analysis/reembed";
+import { nearestBookmarks, vectorSearch } from "../src/analysis/search";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+// Models whose vectors encode each text's length, recording their calls
+const calls: string[][] = [];
+const fakeModel = (dim: number) => async (texts: string | string[]) => {
+  const batch = Array.isArray(texts) ? texts : [texts];
+  calls.push(batch);
+  const data = new Float32Array(batch.length * dim);
+  batch.forEach((text, row) => {
+    data[row * dim] = text.length;
+    data[row * dim + 1] = 1;
+  });
+  return { data, dims: [batch.length, dim] };
+};
+
+mock.module("@xenova/transformers", () => ({
+  pipeline: async (_task: string, name: string) => fakeModel(findEmbeddingModel(name)!.dim),
+}));
+
+afterAll(() => {
+  mock.module("@xenova/transformers", () => ({
+    pipeline: async () => {
+      throw new Error("Embedding models are not available in tests");
+    },
+  }));
+  resetEmbedder();
+});
+
+describe("embedding", () => {
+  useTestEnv();
+
+  afterEach(() => {
+    calls.length = 0;
+  });
+
+  test("embedBatch runs whole batches through the model", async () => {
+    const texts = Array.from({ length: 40 }, (_, i) => "x".repeat(i + 1));
+    const vectors = await embedBatch(texts, DEFAULT_EMBEDDING_MODEL);
+
+    expect(calls.map((batch) => batch.length)).toEqual([32, 8]);
+    expect(vectors.map((v) => v[0])).toEqual(texts.map((t) => t.length));
+    expect(vectors[0]).toHaveLength(DEFAULT_EMBEDDING_MODEL.dim);
+
+    calls.length = 0;
+    await embedBatch(texts, DEFAULT_EMBEDDING_MODEL, "document", 40);
+    expect(calls.map((batch) => batch.length)).toEqual([40]);
+  });
+
+  test("generateEmbeddings stores each batch and reports throughput", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const progress: AnalysisProgress[] = [];
+
+    expect(await generateEmbeddings((p) => progress.push(p), { batchSize: 2 })).toBe(5);
+
+    expect(calls.map((batch) => batch.length)).toEqual([2, 2, 1]);
+    expect(progress.map((p) => p.current)).toEqual([0, 2, 4, 5]);
+    expect(progress.at(-1)).toMatchObject({ total: 5, etaSeconds: 0 });
+    expect(progress.at(-1)!.perSecond).toBeGreaterThan(0);
+
+    const documents = new Map((await getBookmarkDocuments()).map((d) => [d.id, d.document]));
+    const rows = await getDb().execute("SELECT id, embedding FROM bookmarks");
+    for (const row of rows.rows) {
+      expect(decodeVector(row.embedding)![0]).toBe(documents.get(row.id as number)!.length);
+    }
+    expect(await generateEmbeddings()).toBe(0);
+  });
+
+  test("builds documents only for bookmarks synced since they were embedded", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const candidates = embeddingCandidates(DEFAULT_EMBEDDING_MODEL.name);
+    expect(await getBookmarkDocuments(candidates)).toHaveLength(5);
+
+    await generateEmbeddings();
+    expect(await getBookmarkDocuments(candidates)).toHaveLength(0);
+    expect(await getBookmarkDocuments(embeddingCandidates(findEmbeddingModel("bge-small")!.name))).toHaveLength(5);
+
+    // A sync that changes nothing makes them candidates, checked once without embedding
+    await syncBookmarks(undefined, { mode: "full" });
+    expect(await getBookmarkDocuments(candidates)).toHaveLength(5);
+    calls.length = 0;
+    expect(await generateEmbeddings()).toBe(0);
+    expect(calls).toEqual([]);
+    expect(await getBookmarkDocuments(candidates)).toHaveLength(0);
+  });
+
+  test("re-embeds a bookmark only when its document changes", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    await generateEmbeddings();
+    const [first, second] = await getBookmarks(2);
+
+    // Same thread again: same document
+    const thread = [{ position: 0, tweet_id: "1790000000000000099", content: "More in the next post", created_at: null }];
+    await replaceThreadTweets(first!.id, thread, new Date().toISOString());
+    expect(await generateEmbeddings()).toBe(1);
+    await replaceThreadTweets(first!.id, thread, new Date().toISOString());
+    expect(await generateEmbeddings()).toBe(0);
+
+    calls.length = 0;
+    await replaceBookmarkLinks(second!.id, [
+      {
+        position: 0,
+        url: "https://t.co/new",
+        expanded_url: "https://example.com",
+        display_url: "example.com",
+        title: "Example",
+        description: null,
+      },
+    ]);
+    // Only bookmarks synced since they were embedded are looked at again
+    expect(await generateEmbeddings()).toBe(0);
+    await getDb().execute({
+      sql: "UPDATE bookmarks SET synced_at = ? WHERE id = ?",
+      args: [new Date().toISOString(), second!.id],
+    });
+    expect(await generateEmbeddings()).toBe(1);
+    expect(calls.flat()[0]).toContain("Link: Example");
+  });
+});
+
+describe("re-embedding", () => {
+  useTestEnv();
+
+  afterEach(() => {
+    calls.length = 0;
+  });
+
+  test("stages a new model's vectors and switches once all are done", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    await generateEmbeddings();
+    const [before] = await vectorSearch("hello", 1);
+
+    const nomic = await startReembed("nomic");
+    expect(await getReembedStatus()).toMatchObject({ target: nomic.name, staged: 0, total: 5 });
+    // Until the switch, search stays on the old vectors
+    expect((await vectorSearch("hello", 1))[0]!.bookmark.id).toBe(before!.bookmark.id);
+    await expect(startReembed("minilm")).resolves.toBe(DEFAULT_EMBEDDING_MODEL);
+    expect((await getReembedStatus()).target).toBeNull();
+    await startReembed("nomic");
+
+    calls.length = 0;
+    expect(await runReembed()).toEqual({ model: nomic.name, embedded: 5 });
+    // nomic marks what it embeds
+    expect(calls.flat().every((text) => text.startsWith("search_document: "))).toBe(true);
+    expect(await getEmbeddingState()).toMatchObject({ model: nomic.name, dim: 768, reembed_model: null });
+
+    const rows = await getDb().execute("SELECT embedding, embedding_model, embedding_dim FROM bookmarks");
+    for (const row of rows.rows) {
+      expect(row).toMatchObject({ embedding_model: nomic.name, embedding_dim: 768 });
+      expect(decodeVector(row.embedding)).toHaveLength(768);
+    }
+    expect(await nearestBookmarks(new Array(768).fill(0.1), 5)).toHaveLength(5);
+    expect(await generateEmbeddings()).toBe(0);
+    expect(await runReembed()).toBeNull();
+  });
+
+  test("refuses the active model and can be cancelled", async () => {
+    await expect(startReembed("minilm")).rejects.toThrow("already use");
+    await expect(startReembed("word2vec")).rejects.toThrow("Unknown embedding model");
+
+    await startReembed("bge-small");
+    expect(await cancelReembed()).toBe(true);
+    expect(await cancelReembed()).toBe(false);
+    expect(await runReembed()).toBeNull();
+  });
+});
+
+describe("embedding pool", () => {
+  const workerUrl = new URL("./fixtures/embedWorker.ts", import.meta.url);
+
+  // expect().rejects blocks on promises settled by worker messages, so errors are caught by hand
+  const failure = (promise: Promise<unknown>) => promise.then(() => null, (err: Error) => err.message);
+
+  test("spreads batches over workers and keeps each result with its batch", async () => {
+    const pool = createEmbeddingPool(2, workerUrl);
+    try {
+      const results = await Promise.all([["a"], ["bb", "ccc"], ["dddd"]].map((texts) => pool.embed(texts, "minilm")));
+      expect(results).toEqual([[[1, 1]], [[2, 1], [3, 1]], [[4, 1]]]);
+      expect(await failure(pool.embed(["boom"], "minilm"))).toBe("boom");
+      expect(await pool.embed(["ok"], "minilm")).toEqual([[2, 1]]);
+    } finally {
+      pool.close();
+    }
+    expect(await failure(pool.embed(["late"], "minilm"))).toBe("Embedding pool is closed");
+  });
+
+  test("fails the batch a worker dies on and replaces the worker", async () => {
+    const pool = createEmbeddingPool(1, workerUrl);
+    try {
+      expect(await failure(pool.embed(["crash"], "minilm"))).toContain("crashed");
+      expect(await pool.embed(["ok"], "minilm")).toEqual([[2, 1]]);
+      expect(await failure(pool.embed(["exit"], "minilm"))).toBe("Embedding worker exited (code 3)");
+      expect(await pool.embed(["ok"], "minilm")).toEqual([[2, 1]]);
+    } finally {
+      pool.close();
+    }
+  });
+});
@@ -0,0 +1,219 @@
+import type { Tweet, TwitterMedia, TwitterUser } from "../src/twitter/client";
+import fixture from "./fixtures/bookmarks.json";
+
+// A local stand-in for the parts of the Twitter API v2 the indexer uses:
+// /users/me, /users/:id/bookmarks, /tweets/search/recent (and /all) and the
+// OAuth2 token endpoint. Point TWITTER_API_BASE_URL at `api.url` to use it.
+
+export interface BookmarkFixture {
+  me: TwitterUser;
+  users: TwitterUser[];
+  media: TwitterMedia[];
+  includedTweets: Tweet[];
+  tweets: Tweet[];
+}
+
+export interface FakeTwitterApiOptions {
+  fixture?: BookmarkFixture;
+  // Caps max_results so small fixtures still span several pages
+  pageSize?: number;
+  // Bookmarks the feed serves at most, newest first; the real API stops near 800
+  feedLimit?: number;
+  // Tweets served by search, e.g. self-replies of a thread
+  searchTweets?: Tweet[];
+  accessToken?: string;
+  refreshToken?: string;
+  // Requests allowed per endpoint per window before answering 429
+  rateLimit?: { limit: number; windowSeconds: number };
+}
+
+interface Budget {
+  remaining: number;
+  resetAt: number; // Unix seconds
+}
+
+interface Failure {
+  status: number;
+  // Unix seconds for the x-rate-limit-reset header of 429s
+  resetAt?: number;
+  // Requests to let through before this failure applies
+  after: number;
+}
+
+export interface FakeTwitterApi {
+  url: string;
+  fixture: BookmarkFixture;
+  // Paths (with query) of every API request, in order
+  requests: string[];
+  // Tokens currently accepted; refreshing rotates both
+  accessToken: string;
+  refreshToken: string;
+  // Fail `times` API requests with this status, after letting `after` through
+  failNext(status: number, options?: { times?: number; after?: number; resetAt?: number }): void;
+  // Stop accepting the current access token, as if it was revoked
+  revokeAccessToken(): void;
+  stop(): void;
+}
+
+export function loadFixture(): BookmarkFixture {
+  return structuredClone(fixture) as BookmarkFixture;
+}
+
+function json(body: unknown, init: ResponseInit = {}): Response {
+  return Response.json(body, init);
+}
+
+export function startFakeTwitterApi(options: FakeTwitterApiOptions = {}): FakeTwitterApi {
+  const failures: Failure[] = [];
+  const pageSize = options.pageSize ?? 100;
+  const feedLimit = options.feedLimit ?? 800;
+  const { limit, windowSeconds } = options.rateLimit ?? { limit: 180, windowSeconds: 900 };
+  const budgets = new Map<string, Budget>();
+  let refreshCount = 0;
+
+  const api: FakeTwitterApi = {
+    url: "",
+    fixture: options.fixture ?? loadFixture(),
+    requests: [],
+    accessToken: options.accessToken ?? "test-access-token",
+    refreshToken: options.refreshToken ?? "test-refresh-token",
+    failNext(status, { times = 1, after = 0, resetAt } = {}) {
+      for (let i = 0; i < times; i++) {
+        failures.push({ status, resetAt, after: i === 0 ? after : 0 });
+      }
+    },
+    revokeAccessToken() {
+      api.accessToken = `revoked-${api.accessToken}`;
+    },
+    stop() {
+      server.stop(true);
+    },
+  };
+
+  function handleToken(body: URLSearchParams): Response {
+    if (body.get("grant_type") !== "refresh_token" || body.get("refresh_token") !== api.refreshToken) {
+      return json({ error: "invalid_request" }, { status: 400 });
+    }
+    refreshCount++;
+    api.accessToken = `test-access-token-${refreshCount}`;
+    api.refreshToken = `test-refresh-token-${refreshCount}`;
+    return json({
+      token_type: "bearer",
+      access_token: api.accessToken,
+      refresh_token: api.refreshToken,
+      expires_in: 7200,
+    });
+  }
+
+  // Spend one request from the path's window, like x-rate-limit-* headers report it
+  function spend(path: string): Budget & { exhausted: boolean } {
+    const now = Math.floor(Date.now() / 1000);
+    let budget = budgets.get(path);
+    if (!budget || budget.resetAt <= now) {
+      budget = { remaining: limit, resetAt: now + windowSeconds };
+      budgets.set(path, budget);
+    }
+    const exhausted = budget.remaining === 0;
+    if (!exhausted) budget.remaining--;
+    return { ...budget, exhausted };
+  }
+
+  function rateLimitHeaders(remaining: number, resetAt: number): Record<string, string> {
+    return {
+      "x-rate-limit-limit": String(limit),
+      "x-rate-limit-remaining": String(remaining),
+      "x-rate-limit-reset": String(resetAt),
+    };
+  }
+
+  function handleBookmarks(params: URLSearchParams): Response {
+    const { users, media, includedTweets } = api.fixture;
+    const tweets = api.fixture.tweets.slice(0, feedLimit);
+    const limit = Math.min(Number(params.get("max_results") ?? 100), pageSize);
+    const start = Number(params.get("pagination_token") ?? 0);
+    const page = tweets.slice(start, start + limit);
+    const end = start + page.length;
+
+    const included = includedTweets.filter((t) =>
+      page.some((p) => p.referenced_tweets?.some((r) => r.id === t.id))
+    );
+    const authorIds = new Set([...page, ...included].map((t) => t.author_id));
+    const mediaKeys = new Set(page.flatMap((t) => t.attachments?.media_keys ?? []));
+
+    return json({
+      data: page.length > 0 ? page : undefined,
+      includes: {
+        users: users.filter((u) => authorIds.has(u.id)),
+        media: media.filter((m) => mediaKeys.has(m.media_key)),
+        tweets: included,
+      },
+      meta: {
+        result_count: page.length,
+        next_token: end < tweets.length ? String(end) : undefined,
+      },
+    });
+  }
+
+  function handleSearch(params: URLSearchParams): Response {
+    const conversationId = params.get("query")?.match(/conversation_id:(\d+)/)?.[1];
+    const data = (options.searchTweets ?? []).filter((t) => t.conversation_id === conversationId);
+    return json({ data, meta: { result_count: data.length } });
+  }
+
+  function route(url: URL): Response {
+    if (url.pathname === "/2/users/me") {
+      return json({ data: api.fixture.me });
+    }
+    if (url.pathname === `/2/users/${api.fixture.me.id}/bookmarks`) {
+      return handleBookmarks(url.searchParams);
+    }
+    if (url.pathname === "/2/tweets/search/recent" || url.pathname === "/2/tweets/search/all") {
+      return handleSearch(url.searchParams);
+    }
+    return json({ title: "Not Found", status: 404 }, { status: 404 });
+  }
+
+  const server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const url = new URL(req.url);
+
+      if (req.method === "POST" && url.pathname === "/2/oauth2/token") {
+        return handleToken(new URLSearchParams(await req.text()));
+      }
+
+      api.requests.push(`${url.pathname}${url.search}`);
+
+      const failure = failures[0] && failures[0].after-- <= 0 ? failures.shift() : undefined;
+      if (failure?.status === 429) {
+        const resetAt = failure.resetAt ?? Math.floor(Date.now() / 1000);
+        return json(
+          { title: "Too Many Requests", status: 429 },
+          { status: 429, headers: rateLimitHeaders(0, resetAt) }
+        );
+      }
+      if (failure) {
+        return json({ title: "Injected failure", status: failure.status }, { status: failure.status });
+      }
+
+      if (req.headers.get("authorization") !== `Bearer ${api.accessToken}`) {
+        return json({ title: "Unauthorized", status: 401 }, { status: 401 });
+      }
+
+      const budget = spend(url.pathname);
+      const headers = rateLimitHeaders(budget.remaining, budget.resetAt);
+      if (budget.exhausted) {
+        return json({ title: "Too Many Requests", status: 429 }, { status: 429, headers });
+      }
+
+      const response = route(url);
+      for (const [name, value] of Object.entries(headers)) {
+        response.headers.set(name, value);
+      }
+      return response;
+    },
+  });
+
+  api.url = `http://localhost:${server.port}/2`;
+  return api;
+}
@@ -0,0 +1,12 @@
+window.YTD.account.part0 = [
+  {
+    "account" : {
+      "email" : "owner@example.com",
+      "createdVia" : "web",
+      "username" : "indexer_owner",
+      "accountId" : "1000",
+      "createdAt" : "2015-03-01T09:00:00.000Z",
+      "accountDisplayName" : "Indexer Owner"
+    }
+  }
+]
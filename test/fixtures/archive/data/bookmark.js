@@ -0,0 +1,12 @@
+window.YTD.bookmark.part0 = [
+  {
+    "bookmark" : {
+      "tweetId" : "1790000000000000005"
+    }
+  },
+  {
+    "bookmark" : {
+      "tweetId" : "1790000000000000050"
+    }
+  }
+]
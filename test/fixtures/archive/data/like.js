@@ -0,0 +1,22 @@
+window.YTD.like.part0 = [
+  {
+    "like" : {
+      "tweetId" : "1790000000000000005",
+      "fullText" : "Shipping a Rust rewrite of our indexer https://t.co/abc",
+      "expandedUrl" : "https://twitter.com/alice/status/1790000000000000005"
+    }
+  },
+  {
+    "like" : {
+      "tweetId" : "1790000000000000060",
+      "fullText" : "Ranking with BM25 is still hard to beat",
+      "expandedUrl" : "https://twitter.com/carol/status/1790000000000000060"
+    }
+  },
+  {
+    "like" : {
+      "tweetId" : "1790000000000000070",
+      "expandedUrl" : "https://twitter.com/i/web/status/1790000000000000070"
+    }
+  }
+]
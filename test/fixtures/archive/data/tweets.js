@@ -0,0 +1,20 @@
+window.YTD.tweets.part0 = [
+  {
+    "tweet" : {
+      "id_str" : "1790000000000000050",
+      "full_text" : "Notes from rebuilding the bookmark index https://t.co/notes",
+      "created_at" : "Wed May 01 10:00:00 +0000 2024",
+      "favorite_count" : "3",
+      "retweet_count" : "1",
+      "entities" : {
+        "urls" : [
+          {
+            "url" : "https://t.co/notes",
+            "expanded_url" : "https://example.com/index-notes",
+            "display_url" : "example.com/index-notes"
+          }
+        ]
+      }
+    }
+  }
+]
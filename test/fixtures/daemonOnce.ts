@@ -0,0 +1,7 @@
+// Runs one daemon cycle on its own, without the CLI around it, for checking
+// what the daemon writes to stdout
+import { initDb } from "../../src/db/client";
+import { runDaemon } from "../../src/daemon";
+
+await initDb();
+await runDaemon({ once: true, embed: false });
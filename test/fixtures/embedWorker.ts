@@ -0,0 +1,20 @@
+// Stand-in for src/analysis/embedWorker.ts: "embeds" a text as [length, 1]
+// without loading a model. Fails on "boom", throws past the handler on
+// "crash" and exits on "exit".
+
+declare const self: Worker;
+
+self.onmessage = (event: MessageEvent<{ id: number; texts: string[] }>) => {
+  const { id, texts } = event.data;
+  if (texts.includes("boom")) {
+    self.postMessage({ id, error: "boom" });
+  } else if (texts.includes("crash")) {
+    setTimeout(() => {
+      throw new Error("crashed");
+    });
+  } else if (texts.includes("exit")) {
+    process.exit(3);
+  } else {
+    self.postMessage({ id, vectors: texts.map((text) => [text.length, 1]) });
+  }
+};
@@ -0,0 +1,66 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { getDb } from "../src/db/client";
+import { getBookmarks, replaceBookmarkLinks, replaceThreadTweets, upsertAuthor } from "../src/db/queries";
+import { checkFtsIntegrity, ftsSearch, reindexAllFts } from "../src/analysis/search";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+async function keyword(query: string): Promise<string[]> {
+  return (await ftsSearch(query)).map((r) => r.bookmark.tweet_id);
+}
+
+describe("full-text index", () => {
+  useTestEnv();
+
+  beforeEach(async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+  });
+
+  test("indexes synced bookmarks without running analysis", async () => {
+    expect(await keyword("vector")).toEqual(["1790000000000000003"]);
+    // Author and expanded link URLs are searchable too
+    expect((await keyword("bob")).sort()).toEqual(["1790000000000000002", "1790000000000000004"]);
+    expect(await keyword("rust-indexer")).toContain("1790000000000000005");
+    expect(await checkFtsIntegrity()).toBe(true);
+  });
+
+  test("follows edits to bookmarks, authors, links and threads", async () => {
+    const [first] = await getBookmarks(1);
+    await getDb().execute({
+      sql: "UPDATE bookmarks SET content = 'Now about tantivy' WHERE id = ?",
+      args: [first!.id],
+    });
+    expect(await keyword("tantivy")).toEqual([first!.tweet_id]);
+    expect(await keyword("Shipping")).toEqual([]);
+
+    await upsertAuthor({ twitter_id: "2001", username: "alicia", display_name: "Alicia", avatar_url: null });
+    expect(await keyword("alicia")).toHaveLength(3);
+
+    await replaceBookmarkLinks(first!.id, [
+      { position: 0, url: "https://t.co/x", expanded_url: "https://lucene.apache.org", display_url: null, title: null, description: null },
+    ]);
+    expect(await keyword("lucene")).toEqual([first!.tweet_id]);
+
+    await replaceThreadTweets(
+      first!.id,
+      [{ position: 0, tweet_id: "1790000000000000099", content: "Benchmarks in the next post", created_at: null }],
+      new Date().toISOString()
+    );
+    expect(await keyword("benchmarks")).toEqual([first!.tweet_id]);
+    expect(await checkFtsIntegrity()).toBe(true);
+  });
+
+  test("detects a damaged index and rebuilds it", async () => {
+    const [first] = await getBookmarks(1);
+    // Remove the document with the wrong text, leaving stale postings behind
+    await getDb().execute({
+      sql: "INSERT INTO bookmarks_fts(bookmarks_fts, rowid, content, author, urls) VALUES ('delete', ?, 'unrelated', '', '')",
+      args: [first!.id],
+    });
+    expect(await checkFtsIntegrity()).toBe(false);
+
+    expect(await reindexAllFts()).toBe(5);
+    expect(await checkFtsIntegrity()).toBe(true);
+    expect(await keyword("Shipping")).toEqual([first!.tweet_id]);
+  });
+});
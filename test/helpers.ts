@@ -0,0 +1,71 @@
+import { afterEach, beforeEach } from "bun:test";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { closeDb, getDb, initDb } from "../src/db/client";
+import { DEFAULT_EMBEDDING_MODEL, type EmbeddingModel } from "../src/analysis/embeddings";
+import { logout } from "../src/twitter/auth";
+import { resetClientState } from "../src/twitter/client";
+import {
+  startFakeTwitterApi,
+  type FakeTwitterApi,
+  type FakeTwitterApiOptions,
+} from "./fakeTwitterApi";
+
+export interface TestEnv {
+  dir: string;
+  api: FakeTwitterApi;
+  // Write an OAuth token file for the fake API, expiring in `expiresInMs`
+  writeTokens(expiresInMs?: number): Promise<void>;
+}
+
+// Give every test a fresh database, token file and fake Twitter API
+export function useTestEnv(options: FakeTwitterApiOptions = {}): TestEnv {
+  const env = {} as TestEnv;
+
+  beforeEach(async () => {
+    env.dir = await mkdtemp(join(tmpdir(), "bookmark-indexer-test-"));
+    env.api = startFakeTwitterApi(options);
+
+    process.env.BOOKMARKS_DB_URL = `file:${join(env.dir, "bookmarks.db")}`;
+    process.env.TWITTER_TOKENS_PATH = join(env.dir, "tokens.json");
+    process.env.TWITTER_API_BASE_URL = env.api.url;
+
+    env.writeTokens = async (expiresInMs = 60 * 60 * 1000) => {
+      await Bun.write(
+        process.env.TWITTER_TOKENS_PATH!,
+        JSON.stringify({
+          access_token: env.api.accessToken,
+          refresh_token: env.api.refreshToken,
+          expires_at: Date.now() + expiresInMs,
+        })
+      );
+    };
+
+    await logout();
+    resetClientState();
+    await env.writeTokens();
+    await closeDb();
+    await initDb();
+  });
+
+  afterEach(async () => {
+    await closeDb();
+    env.api.stop();
+    await rm(env.dir, { recursive: true, force: true });
+  });
+
+  return env;
+}
+
+// Store a vector as if `model` had embedded the bookmark
+export async function storeEmbedding(
+  id: number,
+  vector: number[],
+  model: EmbeddingModel = DEFAULT_EMBEDDING_MODEL
+): Promise<void> {
+  await getDb().execute({
+    sql: "UPDATE bookmarks SET embedding = vector32(?), embedding_model = ?, embedding_dim = ? WHERE id = ?",
+    args: [JSON.stringify(vector), model.name, model.dim, id],
+  });
+}
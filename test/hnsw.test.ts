@@ -0,0 +1,155 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { existsSync, readFileSync, writeFileSync } from "fs";
+import { join } from "path";
+import { getDb } from "../src/db/client";
+import { getBookmarks } from "../src/db/queries";
+import { DEFAULT_EMBEDDING_MODEL } from "../src/analysis/embeddings";
+import { addToAnnIndex, loadAnnIndex, resetAnnIndex } from "../src/analysis/annIndex";
+import {
+  createHnswIndex,
+  deserializeHnsw,
+  insertVector,
+  removeVector,
+  searchHnsw,
+  serializeHnsw,
+} from "../src/analysis/hnsw";
+import { nearestBookmarks } from "../src/analysis/search";
+import { syncBookmarks } from "../src/twitter/sync";
+import { storeEmbedding, useTestEnv } from "./helpers";
+
+// Reproducible pseudo-random vectors
+function randomVectors(count: number, dim: number, seed = 7): number[][] {
+  let state = seed;
+  const next = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dim }, next));
+}
+
+function exactTop(vectors: number[][], query: number[], k: number): number[] {
+  const cosine = (a: number[], b: number[]) => {
+    let dot = 0, na = 0, nb = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i]! * b[i]!;
+      na += a[i]! * a[i]!;
+      nb += b[i]! * b[i]!;
+    }
+    return dot / Math.sqrt(na * nb);
+  };
+  return vectors
+    .map((v, id) => ({ id, score: cosine(v, query) }))
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k)
+    .map((r) => r.id);
+}
+
+describe("hnsw", () => {
+  const vectors = randomVectors(1000, 32);
+  const queries = randomVectors(50, 32, 99);
+  const index = createHnswIndex(32);
+  vectors.forEach((v, id) => insertVector(index, id, v));
+
+  test("finds nearly all of the exact nearest neighbours", () => {
+    let found = 0;
+    for (const query of queries) {
+      const truth = new Set(exactTop(vectors, query, 10));
+      found += searchHnsw(index, query, 10).filter((m) => truth.has(m.id)).length;
+    }
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.95);
+  });
+
+  test("round-trips through its file format", () => {
+    const copy = deserializeHnsw(serializeHnsw(index));
+    for (const query of queries.slice(0, 5)) {
+      expect(searchHnsw(copy, query, 10)).toEqual(searchHnsw(index, query, 10));
+    }
+  });
+
+  test("leaves removed and replaced vectors out of results", () => {
+    const small = createHnswIndex(32);
+    vectors.slice(0, 50).forEach((v, id) => insertVector(small, id, v));
+
+    removeVector(small, 3);
+    expect(searchHnsw(small, vectors[3]!, 5).map((m) => m.id)).not.toContain(3);
+
+    insertVector(small, 4, vectors[10]!);
+    const ids = searchHnsw(small, vectors[10]!, 2).map((m) => m.id);
+    expect(ids.sort((a, b) => a - b)).toEqual([4, 10]);
+    expect(searchHnsw(small, vectors[4]!, 1)[0]!.id).not.toBe(4);
+  });
+});
+
+describe("hnsw index file", () => {
+  const env = useTestEnv();
+
+  function axis(i: number): number[] {
+    return Array.from({ length: DEFAULT_EMBEDDING_MODEL.dim }, (_, j) => (j === i ? 1 : j === i + 1 ? 0.1 : 0));
+  }
+
+  beforeEach(async () => {
+    resetAnnIndex();
+    await syncBookmarks(undefined, { mode: "full" });
+    for (const [i, bookmark] of (await getBookmarks(10)).entries()) {
+      await storeEmbedding(bookmark.id, axis(i));
+    }
+  });
+
+  test("is built next to the database and matches exact search", async () => {
+    const query = axis(2);
+    query[1] = 0.1;
+    query[3] = 0.3;
+    const hnsw = await nearestBookmarks(query, 3, "hnsw");
+    const scan = await nearestBookmarks(query, 3, "scan");
+    expect(hnsw.map((r) => r.bookmark.id)).toEqual(scan.map((r) => r.bookmark.id));
+    expect(existsSync(join(env.dir, "bookmarks.db.hnsw"))).toBe(true);
+  });
+
+  test("picks up new embeddings incrementally and on reload", async () => {
+    await loadAnnIndex();
+    const [bookmark] = await getBookmarks(1);
+    const moved = axis(40);
+    await storeEmbedding(bookmark!.id, moved);
+    await addToAnnIndex([{ id: bookmark!.id, vector: moved, hash: null }], DEFAULT_EMBEDDING_MODEL);
+
+    const [hit] = await nearestBookmarks(moved, 1, "hnsw");
+    expect(hit!.bookmark.id).toBe(bookmark!.id);
+
+    // Cleared outside generateEmbeddings: reconciled when the file is loaded
+    await getDb().execute({ sql: "UPDATE bookmarks SET embedding = NULL WHERE id = ?", args: [bookmark!.id] });
+    resetAnnIndex();
+    expect((await loadAnnIndex())!.nodeById.has(bookmark!.id)).toBe(false);
+    expect((await nearestBookmarks(moved, 5, "hnsw")).map((r) => r.bookmark.id)).not.toContain(bookmark!.id);
+  });
+
+  test("re-reads vectors whose document hash changed behind its back", async () => {
+    const [bookmark] = await getBookmarks(1);
+    await getDb().execute({ sql: "UPDATE bookmarks SET embedding_hash = 'old' WHERE id = ?", args: [bookmark!.id] });
+    await loadAnnIndex();
+
+    // Re-embedded without going through addToAnnIndex
+    const moved = axis(40);
+    await storeEmbedding(bookmark!.id, moved);
+    await getDb().execute({ sql: "UPDATE bookmarks SET embedding_hash = 'new' WHERE id = ?", args: [bookmark!.id] });
+    resetAnnIndex();
+
+    const [hit] = await nearestBookmarks(moved, 1, "hnsw");
+    expect(hit!.bookmark.id).toBe(bookmark!.id);
+  });
+
+  test("loads the file again when another process rewrites it", async () => {
+    const path = join(env.dir, "bookmarks.db.hnsw");
+    await loadAnnIndex();
+
+    // Another process stores an embedding and adds it to its copy of the file
+    const [bookmark] = await getBookmarks(1);
+    const moved = axis(40);
+    await storeEmbedding(bookmark!.id, moved);
+    const theirs = deserializeHnsw(readFileSync(path));
+    insertVector(theirs, bookmark!.id, moved);
+    writeFileSync(path, serializeHnsw(theirs));
+
+    const [hit] = await nearestBookmarks(moved, 1, "hnsw");
+    expect(hit!.bookmark.id).toBe(bookmark!.id);
+  });
+});
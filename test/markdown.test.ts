@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { readdir } from "fs/promises";
+import { join } from "path";
+import { createItem, createTopic, getBookmarks, linkBookmarkToTopic } from "../src/db/queries";
+import { exportMarkdownVault } from "../src/export";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+describe("markdown vault export", () => {
+  const env = useTestEnv();
+  let vault: string;
+  let note: string;
+
+  beforeEach(async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const [first] = await getBookmarks(1);
+    const topicId = await createTopic("Search", "Search engines");
+    await linkBookmarkToTopic(first!.id, topicId, 0.9);
+    await createItem({
+      bookmark_id: first!.id,
+      type: "task",
+      title: "Try the indexer",
+      description: null,
+      status: "pending",
+    });
+
+    vault = join(env.dir, "vault");
+    note = join(vault, "bookmarks", "alice-1790000000000000005.md");
+  });
+
+  test("writes a note per bookmark and an index note per topic", async () => {
+    const result = await exportMarkdownVault(vault);
+
+    expect(result).toEqual({ written: 6, unchanged: 0, topics: 1 });
+    expect(await readdir(join(vault, "bookmarks"))).toHaveLength(5);
+
+    const text = await Bun.file(note).text();
+    expect(text).toStartWith('---\ntweet_id: "1790000000000000005"\n');
+    expect(text).toContain('author: "@alice"');
+    expect(text).toContain('topics:\n  - "Search"');
+    expect(text).toContain('items:\n  - "task: Try the indexer (pending)"');
+    expect(text).toContain("- [ ] task: Try the indexer");
+    expect(text).toContain("[[topics/Search|Search]]");
+
+    const topic = await Bun.file(join(vault, "topics", "Search.md")).text();
+    expect(topic).toContain("bookmark_count: 1");
+    expect(topic).toContain("[[bookmarks/alice-1790000000000000005|@alice:");
+  });
+
+  test("re-exports keep hand-edited sections and skip unchanged notes", async () => {
+    await exportMarkdownVault(vault);
+    const original = await Bun.file(note).text();
+    const edited = original
+      .replace("---\n", "---\nrating: 5\n")
+      .concat("\n## My notes\n\nWorth a closer look.\n");
+    await Bun.write(note, edited);
+
+    const again = await exportMarkdownVault(vault);
+    expect(again).toEqual({ written: 0, unchanged: 6, topics: 1 });
+    expect(await Bun.file(note).text()).toBe(edited);
+
+    const [first] = await getBookmarks(1);
+    await createItem({
+      bookmark_id: first!.id,
+      type: "idea",
+      title: "Write it up",
+      description: null,
+      status: "pending",
+    });
+    const updated = await exportMarkdownVault(vault);
+    expect(updated.written).toBe(1);
+
+    const text = await Bun.file(note).text();
+    expect(text).toContain("rating: 5");
+    expect(text).toContain("- [ ] idea: Write it up");
+    expect(text).toEndWith("## My notes\n\nWorth a closer look.\n");
+  });
+});
@@ -0,0 +1,160 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { join } from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { createTopic, getBookmarks, getItems, linkBookmarkToTopic } from "../src/db/queries";
+import { createMcpServer } from "../src/mcp";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+describe("MCP server", () => {
+  useTestEnv();
+  let client: Client;
+
+  async function call(name: string, args: Record<string, unknown> = {}) {
+    const result = (await client.callTool({ name, arguments: args })) as {
+      content: { type: string; text: string }[];
+      isError?: boolean;
+    };
+    const text = result.content[0]?.text ?? "";
+    return { isError: result.isError ?? false, text, json: () => JSON.parse(text) };
+  }
+
+  beforeEach(async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await createMcpServer().connect(serverTransport);
+    client = new Client({ name: "test-client", version: "1.0.0" });
+    await client.connect(clientTransport);
+  });
+
+  afterEach(async () => {
+    await client.close();
+  });
+
+  test("lists its tools", async () => {
+    const { tools } = await client.listTools();
+    expect(tools.map((t) => t.name).sort()).toEqual([
+      "add_item",
+      "get_bookmark",
+      "get_topic",
+      "list_topics",
+      "search_bookmarks",
+    ]);
+  });
+
+  test("search_bookmarks returns text, author, url and score", async () => {
+    const result = await call("search_bookmarks", { query: "sqlite", mode: "keyword" });
+
+    expect(result.isError).toBe(false);
+    const [hit] = result.json();
+    expect(hit).toMatchObject({
+      text: "Notes on SQLite full-text search",
+      author: "@bob",
+      url: "https://x.com/bob/status/1790000000000000002",
+    });
+    expect(typeof hit.score).toBe("number");
+  });
+
+  test("get_bookmark includes links and reports unknown ids as errors", async () => {
+    const [first] = await getBookmarks(1);
+    const result = await call("get_bookmark", { id: first!.id });
+    expect(result.json()).toMatchObject({
+      author: "@alice",
+      links: [{ url: "https://example.com/rust-indexer", title: "Rewriting the indexer in Rust" }],
+    });
+
+    const missing = await call("get_bookmark", { id: 9999 });
+    expect(missing).toMatchObject({ isError: true, text: "No bookmark with id 9999" });
+  });
+
+  test("list_topics and get_topic", async () => {
+    const [first] = await getBookmarks(1);
+    const topicId = await createTopic("Rust", "Systems programming");
+    await linkBookmarkToTopic(first!.id, topicId, 0.9);
+
+    expect((await call("list_topics")).json()).toEqual([
+      { id: topicId, name: "Rust", description: "Systems programming", bookmarks: 1 },
+    ]);
+    const topic = (await call("get_topic", { id: topicId })).json();
+    expect(topic.bookmarks.map((b: { id: number }) => b.id)).toEqual([first!.id]);
+  });
+
+  test("add_item saves a pending item for a bookmark", async () => {
+    const [first] = await getBookmarks(1);
+    const result = await call("add_item", {
+      bookmark_id: first!.id,
+      type: "task",
+      title: "Benchmark the Rust indexer",
+    });
+
+    expect(result.json()).toMatchObject({ type: "task", status: "pending" });
+    expect(await getItems({ type: "task" })).toEqual([
+      expect.objectContaining({ bookmark_id: first!.id, title: "Benchmark the Rust indexer" }),
+    ]);
+  });
+
+  test("rejects invalid arguments", async () => {
+    const result = await call("add_item", { bookmark_id: 1, type: "chore", title: "x" });
+    expect(result.isError).toBe(true);
+  });
+});
+
+describe("mcp command", () => {
+  useTestEnv();
+
+  test("speaks nothing but JSON-RPC on stdout", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const requests = [
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        method: "initialize",
+        params: { protocolVersion: "2024-11-05", capabilities: {}, clientInfo: { name: "test", version: "1.0.0" } },
+      },
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      { jsonrpc: "2.0", id: 2, method: "tools/list" },
+      {
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tools/call",
+        params: { name: "search_bookmarks", arguments: { query: "sqlite", mode: "keyword" } },
+      },
+    ];
+
+    const server = Bun.spawn(["bun", join(import.meta.dir, "..", "src", "index.ts"), "mcp"], {
+      env: { ...process.env },
+      stdin: "pipe",
+      stdout: "pipe",
+      stderr: "pipe",
+    });
+    const timeout = setTimeout(() => server.kill(), 30_000);
+    server.stdin.write(requests.map((r) => `${JSON.stringify(r)}\n`).join(""));
+
+    // Read until every request has its response, then hang up
+    const lines: string[] = [];
+    const decoder = new TextDecoder();
+    let buffered = "";
+    for await (const chunk of server.stdout) {
+      buffered += decoder.decode(chunk, { stream: true });
+      const complete = buffered.split("\n");
+      buffered = complete.pop()!;
+      lines.push(...complete.filter(Boolean));
+      if (lines.length >= 3) break;
+    }
+    server.kill();
+    await server.exited;
+    clearTimeout(timeout);
+
+    const messages = lines.map((line) => JSON.parse(line));
+    expect(messages.map((m) => [m.jsonrpc, m.id])).toEqual([
+      ["2.0", 1],
+      ["2.0", 2],
+      ["2.0", 3],
+    ]);
+    expect(messages[1].result.tools).toHaveLength(5);
+    const [hit] = JSON.parse(messages[2].result.content[0].text);
+    expect(hit.url).toBe("https://x.com/bob/status/1790000000000000002");
+  });
+});
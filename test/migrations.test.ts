@@ -0,0 +1,133 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { createClient, type Client } from "@libsql/client";
+import { mkdtemp, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { getMigrationStatus, migrate, MIGRATIONS, type Migration } from "../src/db/migrations";
+
+async function columns(client: Client, table: string): Promise<string[]> {
+  const result = await client.execute(`PRAGMA table_info(${table})`);
+  return result.rows.map((row) => row.name as string);
+}
+
+describe("migrations", () => {
+  let dir: string;
+  let client: Client;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "bookmark-indexer-migrations-"));
+    client = createClient({ url: `file:${join(dir, "test.db")}` });
+  });
+
+  afterEach(async () => {
+    client.close();
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  test("applies every migration once and records it", async () => {
+    const applied = await migrate(client);
+    expect(applied).toEqual(MIGRATIONS.map((m) => m.version));
+    expect(await migrate(client)).toEqual([]);
+
+    const status = await getMigrationStatus(client);
+    expect(status.every((m) => m.applied_at !== null)).toBe(true);
+    expect(await columns(client, "saved_searches")).toContain("query");
+  });
+
+  test("upgrades a database created before migrations existed", async () => {
+    await client.execute(`CREATE TABLE bookmarks (
+      id INTEGER PRIMARY KEY,
+      tweet_id TEXT UNIQUE NOT NULL,
+      author_id INTEGER,
+      content TEXT NOT NULL,
+      created_at TEXT NOT NULL,
+      bookmarked_at TEXT NOT NULL,
+      like_count INTEGER DEFAULT 0,
+      retweet_count INTEGER DEFAULT 0,
+      synced_at TEXT NOT NULL
+    )`);
+    await client.execute(
+      "INSERT INTO bookmarks (tweet_id, content, created_at, bookmarked_at, synced_at) VALUES ('1', 'hi', 'x', 'x', 'x')"
+    );
+
+    await migrate(client);
+
+    expect(await columns(client, "bookmarks")).toEqual(
+      expect.arrayContaining(["embedding", "removed_at", "source", "url", "feed_position"])
+    );
+    const row = await client.execute("SELECT source FROM bookmarks WHERE tweet_id = '1'");
+    expect(row.rows[0]?.source).toBe("twitter");
+  });
+
+  test("converts JSON embeddings to vectors tagged with their model", async () => {
+    const applied = MIGRATIONS.filter((m) => m.version < 5);
+    await migrate(client, applied);
+    const embedding = Array.from({ length: 384 }, (_, i) => (i === 7 ? 1 : 0));
+    await client.execute(
+      "INSERT INTO bookmarks (tweet_id, content, created_at, bookmarked_at, synced_at, embedding) VALUES ('1', 'hi', 'x', 'x', 'x', ?)",
+      [JSON.stringify(embedding)]
+    );
+    await client.execute(
+      "INSERT INTO bookmarks (tweet_id, content, created_at, bookmarked_at, synced_at, embedding) VALUES ('2', 'hi', 'x', 'x', 'x', 'not json')"
+    );
+
+    await migrate(client);
+
+    const rows = await client.execute(
+      `SELECT CASE WHEN embedding IS NULL THEN NULL ELSE vector_extract(embedding) END AS embedding,
+         embedding_model, embedding_dim
+       FROM bookmarks ORDER BY tweet_id`
+    );
+    expect(JSON.parse(rows.rows[0]!.embedding as string)).toEqual(embedding);
+    expect(rows.rows[0]).toMatchObject({ embedding_model: "Xenova/all-MiniLM-L6-v2", embedding_dim: 384 });
+    expect(rows.rows[1]).toMatchObject({ embedding: null, embedding_model: null });
+  });
+
+  test("queues an expansion backfill for databases with synced bookmarks", async () => {
+    await migrate(client, MIGRATIONS.filter((m) => m.version < 8));
+    await client.execute(
+      "INSERT INTO bookmarks (tweet_id, content, created_at, bookmarked_at, synced_at) VALUES ('1', 'hi', 'x', 'x', 'x')"
+    );
+
+    await migrate(client);
+
+    const state = await client.execute("SELECT expansions_backfill_pending FROM sync_state");
+    expect(state.rows[0]!.expansions_backfill_pending).toBe(1);
+  });
+
+  test("records existing bookmarks as seen by the source they came from", async () => {
+    await migrate(client, MIGRATIONS.filter((m) => m.version < 10));
+    await client.execute(
+      `INSERT INTO bookmarks (tweet_id, content, created_at, bookmarked_at, synced_at, source)
+       VALUES ('1', 'hi', 'x', 'x', '2024-05-01', 'archive')`
+    );
+
+    await migrate(client);
+
+    const seen = await client.execute("SELECT source, seen_at FROM bookmark_sources");
+    expect(seen.rows.map((row) => [row.source, row.seen_at])).toEqual([["archive", "2024-05-01"]]);
+  });
+
+  test("rolls back a failed migration", async () => {
+    const broken: Migration[] = [
+      ...MIGRATIONS,
+      {
+        version: 1000,
+        name: "broken",
+        up: ["CREATE TABLE half_done (id INTEGER)", "NOT VALID SQL"],
+      },
+    ];
+
+    await expect(migrate(client, broken)).rejects.toThrow("Migration 1000 (broken) failed");
+    const status = await getMigrationStatus(client, broken);
+    expect(status.find((m) => m.version === 1000)?.applied_at).toBeNull();
+    const tables = await client.execute("SELECT name FROM sqlite_master WHERE name = 'half_done'");
+    expect(tables.rows).toHaveLength(0);
+  });
+
+  test("refuses a database migrated by a newer version", async () => {
+    await migrate(client);
+    await client.execute("INSERT INTO schema_migrations (version, name, applied_at) VALUES (9999, 'future', 'now')");
+    await expect(migrate(client)).rejects.toThrow("newer than this build");
+  });
+});
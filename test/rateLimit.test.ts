@@ -0,0 +1,82 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { saveRateLimit } from "../src/db/queries";
+import { getAllBookmarks } from "../src/twitter/client";
+import {
+  endpointKey,
+  getBookmarksBudget,
+  getTierConfig,
+  onRateLimitWait,
+  type RateLimitWait,
+} from "../src/twitter/rateLimit";
+import { syncBookmarks, type SyncProgress } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+describe("rate limit manager", () => {
+  const env = useTestEnv({ pageSize: 2, rateLimit: { limit: 10, windowSeconds: 900 } });
+
+  afterEach(() => {
+    delete process.env.TWITTER_API_TIER;
+  });
+
+  test("keys budgets by endpoint rather than URL", () => {
+    expect(endpointKey("/users/1000/bookmarks?max_results=50")).toBe("/users/:id/bookmarks");
+    expect(endpointKey("/users/me")).toBe("/users/me");
+  });
+
+  test("persists the budget reported by every response", async () => {
+    await getAllBookmarks(undefined, { maxTotal: 4 });
+
+    const budget = await getBookmarksBudget();
+    expect(budget).toMatchObject({ endpoint: "/users/:id/bookmarks", limit_total: 10, remaining: 8 });
+    expect(new Date(budget!.reset_at).getTime()).toBeGreaterThan(Date.now());
+  });
+
+  test("picks page size from the API tier", async () => {
+    expect(getTierConfig().pageSize).toBe(50);
+    process.env.TWITTER_API_TIER = "pro";
+    await getAllBookmarks(undefined, { maxTotal: 1 });
+
+    expect(getTierConfig().pageSize).toBe(100);
+    expect(env.api.requests.find((r) => r.includes("/bookmarks"))).toContain("max_results=100");
+  });
+
+  test("waits out an exhausted budget before the next request", async () => {
+    const resetAt = new Date(Date.now() + 500).toISOString();
+    await saveRateLimit({
+      endpoint: "/users/:id/bookmarks",
+      limit_total: 10,
+      remaining: 0,
+      reset_at: resetAt,
+      updated_at: new Date().toISOString(),
+    });
+
+    const waits: RateLimitWait[] = [];
+    const unsubscribe = onRateLimitWait((wait) => waits.push(wait));
+    const started = Date.now();
+    try {
+      await getAllBookmarks(undefined, { maxTotal: 2 });
+    } finally {
+      unsubscribe();
+    }
+
+    expect(waits).toHaveLength(1);
+    expect(waits[0]?.endpoint).toBe("/users/:id/bookmarks");
+    expect(Date.now() - started).toBeGreaterThanOrEqual(1000);
+    // Nothing was spent on a request that would have been a 429
+    expect(env.api.requests.filter((r) => r.includes("/bookmarks"))).toHaveLength(1);
+  }, 10_000);
+
+  test("reports rate limit waits as a sync phase", async () => {
+    env.api.failNext(429, { after: 2 });
+    const waiting: SyncProgress[] = [];
+
+    const result = await syncBookmarks((p) => p.phase === "waiting" && waiting.push(p), {
+      mode: "full",
+    });
+
+    expect(result.newBookmarks).toBe(5);
+    expect(waiting).toHaveLength(1);
+    expect(waiting[0]).toMatchObject({ fetched: 2, saved: 2 });
+    expect(waiting[0]?.resumeAt).toBeDefined();
+  }, 10_000);
+});
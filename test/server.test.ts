@@ -0,0 +1,180 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createItem, createTopic, getBookmarks, linkBookmarkToTopic } from "../src/db/queries";
+import { createApiHandler } from "../src/server";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+const handle = createApiHandler();
+
+async function get(path: string, init?: RequestInit): Promise<{ status: number; body: any }> {
+  const response = await handle(new Request(`http://localhost${path}`, init));
+  return { status: response.status, body: await response.json() };
+}
+
+describe("HTTP API", () => {
+  useTestEnv();
+
+  beforeEach(async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+  });
+
+  test("lists bookmarks with pagination", async () => {
+    const { status, body } = await get("/api/bookmarks?limit=2&offset=1");
+
+    expect(status).toBe(200);
+    expect(body.data.map((b: any) => b.tweet_id)).toEqual([
+      "1790000000000000004",
+      "1790000000000000003",
+    ]);
+    expect(body.pagination).toEqual({ limit: 2, offset: 1, total: 5, next_offset: 3 });
+    expect(body.data[0].url).toBe("https://x.com/bob/status/1790000000000000004");
+    expect(Object.keys(body.data[0]).sort()).toEqual([
+      "author_id",
+      "bookmarked_at",
+      "content",
+      "conversation_id",
+      "created_at",
+      "display_name",
+      "feed_position",
+      "first_seen_at",
+      "id",
+      "like_count",
+      "removed_at",
+      "retweet_count",
+      "source",
+      "synced_at",
+      "thread_synced_at",
+      "tweet_id",
+      "url",
+      "username",
+    ]);
+  });
+
+  test("filters bookmarks by author, date and topic", async () => {
+    const byAuthor = await get("/api/bookmarks?author=@alice");
+    expect(byAuthor.body.pagination.total).toBe(3);
+
+    const since = await get("/api/bookmarks?since=2024-05-04T00:00:00.000Z");
+    expect(since.body.data).toHaveLength(2);
+
+    const [first] = await getBookmarks(1);
+    const topicId = await createTopic("Search", "Search engines");
+    await linkBookmarkToTopic(first!.id, topicId, 0.9);
+    const byTopic = await get(`/api/bookmarks?topic=${topicId}`);
+    expect(byTopic.body.data.map((b: any) => b.id)).toEqual([first!.id]);
+  });
+
+  test("returns a bookmark with its expansions", async () => {
+    const [first] = await getBookmarks(1);
+    const { status, body } = await get(`/api/bookmarks/${first!.id}`);
+
+    expect(status).toBe(200);
+    expect(body.data.tweet_id).toBe("1790000000000000005");
+    expect(body.data.links.map((l: any) => l.expanded_url)).toEqual([
+      "https://example.com/rust-indexer",
+    ]);
+    expect(body.data.thread).toEqual([]);
+  });
+
+  test("searches by keyword", async () => {
+    const { status, body } = await get("/api/search?q=vector&mode=keyword");
+
+    expect(status).toBe(200);
+    expect(body.mode).toBe("keyword");
+    expect(body.data.map((r: any) => r.bookmark.tweet_id)).toEqual(["1790000000000000003"]);
+    expect(Object.keys(body.data[0].bookmark).filter((key) => key.startsWith("embedding"))).toEqual([]);
+  });
+
+  test("lists topics and items, and updates item status", async () => {
+    const [first] = await getBookmarks(1);
+    const topicId = await createTopic("Rust");
+    await linkBookmarkToTopic(first!.id, topicId, 0.8);
+    const itemId = await createItem({
+      bookmark_id: first!.id,
+      type: "task",
+      title: "Try the Rust indexer",
+      description: null,
+      status: "pending",
+    });
+
+    const topics = await get("/api/topics");
+    expect(topics.body.data).toEqual([expect.objectContaining({ name: "Rust", bookmark_count: 1 })]);
+    const topic = await get(`/api/topics/${topicId}`);
+    expect(topic.body.data.bookmarks).toHaveLength(1);
+
+    const patched = await get(`/api/items/${itemId}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "done" }),
+    });
+    expect(patched.body.data).toMatchObject({ id: itemId, status: "done" });
+
+    const done = await get("/api/items?type=task&status=done");
+    expect(done.body.data.map((i: any) => i.id)).toEqual([itemId]);
+    expect((await get("/api/stats")).body.data.totalBookmarks).toBe(5);
+  });
+
+  test("answers errors with JSON bodies", async () => {
+    expect(await get("/api/bookmarks/999")).toEqual({
+      status: 404,
+      body: { error: { code: "not_found", message: "No bookmark with id 999" } },
+    });
+    expect((await get("/api/bookmarks?limit=-1")).status).toBe(400);
+    expect((await get("/api/search")).body.error.code).toBe("missing_parameter");
+    expect((await get("/api/search?q=x&mode=fuzzy")).status).toBe(400);
+    expect((await get("/api/stats", { method: "DELETE" })).status).toBe(405);
+    expect((await get("/api/nope")).status).toBe(404);
+    expect(
+      (await get("/api/items/1", { method: "PATCH", body: "not json" })).body.error.code
+    ).toBe("invalid_body");
+  });
+
+  test("requires the bearer token when one is configured", async () => {
+    const secured = createApiHandler({ token: "s3cret" });
+
+    const denied = await secured(new Request("http://localhost/api/stats"));
+    expect(denied.status).toBe(401);
+
+    const allowed = await secured(
+      new Request("http://localhost/api/stats", { headers: { Authorization: "Bearer s3cret" } })
+    );
+    expect(allowed.status).toBe(200);
+  });
+
+  test("serves topic feeds and saved searches", async () => {
+    const [first] = await getBookmarks(1);
+    const topicId = await createTopic("Rust");
+    await linkBookmarkToTopic(first!.id, topicId, 0.8);
+
+    const atom = await handle(new Request(`http://localhost/feeds/topics/${topicId}.atom`));
+    expect(atom.headers.get("content-type")).toStartWith("application/atom+xml");
+    const xml = await atom.text();
+    expect(xml).toContain(`<link rel="self" href="http://localhost/feeds/topics/${topicId}.atom"/>`);
+    expect(xml).toContain('<link href="https://x.com/alice/status/1790000000000000005"/>');
+
+    const html = await handle(new Request(`http://localhost/feeds/topics/${topicId}.html`));
+    expect(await html.text()).toStartWith("<!DOCTYPE NETSCAPE-Bookmark-file-1>");
+    expect((await handle(new Request("http://localhost/feeds/topics/999.rss"))).status).toBe(404);
+
+    const saved = await get("/api/searches", {
+      method: "POST",
+      body: JSON.stringify({ name: "Vectors", query: "vector", mode: "keyword" }),
+    });
+    expect(saved.body.data).toMatchObject({ name: "Vectors", mode: "keyword" });
+    const rss = await handle(new Request(`http://localhost/feeds/searches/${saved.body.data.id}.rss`));
+    expect(await rss.text()).toContain("<guid isPermaLink=\"true\">https://x.com/alice/status/1790000000000000003</guid>");
+
+    expect((await get(`/api/searches/${saved.body.data.id}`, { method: "DELETE" })).status).toBe(200);
+    expect((await get("/api/searches")).body.data).toEqual([]);
+  });
+
+  test("accepts the token as a query parameter only on feeds", async () => {
+    const secured = createApiHandler({ token: "s3cret" });
+    const topicId = await createTopic("Rust");
+
+    const feed = await secured(new Request(`http://localhost/feeds/topics/${topicId}.atom?token=s3cret`));
+    expect(feed.status).toBe(200);
+    expect(await feed.text()).not.toContain("s3cret");
+    const api = await secured(new Request("http://localhost/api/stats?token=s3cret"));
+    expect(api.status).toBe(401);
+  });
+});
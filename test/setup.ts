@@ -0,0 +1,16 @@
+import { mock } from "bun:test";
+
+// Keep tests offline and fast: no model downloads, no real credentials,
+// no delay between bookmark pages
+mock.module("@xenova/transformers", () => ({
+  pipeline: async () => {
+    throw new Error("Embedding models are not available in tests");
+  },
+}));
+
+delete process.env.X_CONSOLE_BEARER_TOKEN;
+delete process.env.X_USER_ID;
+delete process.env.TURSO_DATABASE_URL;
+delete process.env.TURSO_AUTH_TOKEN;
+process.env.TWITTER_CLIENT_ID = "test-client-id";
+process.env.TWITTER_PAGE_DELAY_MS = "0";
@@ -0,0 +1,34 @@
+import { beforeEach, describe, expect, test } from "bun:test";
+import { createTopic, getBookmarks, linkBookmarkToTopic } from "../src/db/queries";
+import { buildSite } from "../src/export";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+describe("static site", () => {
+  useTestEnv();
+
+  beforeEach(async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const [first, second] = await getBookmarks(2);
+    const topicId = await createTopic("Search & Retrieval", "Indexes <and> rankers");
+    await linkBookmarkToTopic(first!.id, topicId, 0.9);
+    await linkBookmarkToTopic(second!.id, topicId, 0.7);
+  });
+
+  test("renders every page", async () => {
+    const files = await buildSite();
+
+    expect([...files.keys()].sort()).toMatchSnapshot();
+    expect(files.get("index.html")).toMatchSnapshot();
+    expect(files.get("topics/1-search-retrieval.html")).toMatchSnapshot();
+    expect(files.get("authors/alice.html")).toMatchSnapshot();
+    expect(files.get("bookmarks/1790000000000000005.html")).toMatchSnapshot();
+    expect(JSON.parse(files.get("search-index.json")!)).toMatchSnapshot();
+  });
+
+  test("is deterministic", async () => {
+    const first = await buildSite();
+    const second = await buildSite();
+    expect(Object.fromEntries(second)).toEqual(Object.fromEntries(first));
+  });
+});
@@ -0,0 +1,239 @@
+import { describe, expect, test } from "bun:test";
+import { join } from "path";
+import {
+  getBookmarks,
+  getLinksForBookmarks,
+  getMediaForBookmarks,
+  getReferencedTweetsForBookmarks,
+  getSyncState,
+  updateSyncState,
+} from "../src/db/queries";
+import { getDb } from "../src/db/client";
+import { createFileSource } from "../src/sources";
+import { hasPendingBackfill, syncBookmarks, type SyncProgress } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+function byTweetId<T extends { tweet_id: string }>(rows: T[], tweetId: string): T {
+  const row = rows.find((r) => r.tweet_id === tweetId);
+  if (!row) throw new Error(`No bookmark for tweet ${tweetId}`);
+  return row;
+}
+
+describe("syncBookmarks", () => {
+  const env = useTestEnv({ pageSize: 2 });
+
+  test("a full sync stores every bookmark in feed order with its expansions", async () => {
+    const phases = new Set<SyncProgress["phase"]>();
+    const result = await syncBookmarks((p) => phases.add(p.phase), { mode: "full" });
+
+    expect(result).toMatchObject({
+      source: "twitter",
+      mode: "full",
+      newBookmarks: 5,
+      updatedBookmarks: 0,
+      removedBookmarks: 0,
+      totalBookmarks: 5,
+    });
+    expect([...phases]).toEqual(["fetching", "saving", "complete"]);
+
+    const bookmarks = await getBookmarks();
+    expect(bookmarks.map((b) => b.tweet_id)).toEqual(env.api.fixture.tweets.map((t) => t.id));
+    expect(bookmarks.map((b) => b.feed_position)).toEqual([0, 1, 2, 3, 4]);
+    expect(byTweetId(bookmarks, "1790000000000000005")).toMatchObject({
+      username: "alice",
+      like_count: 40,
+      source: "twitter",
+    });
+
+    const ids = bookmarks.map((b) => b.id);
+    const links = await getLinksForBookmarks(ids);
+    const media = await getMediaForBookmarks(ids);
+    const referenced = await getReferencedTweetsForBookmarks(ids);
+
+    const rewrite = byTweetId(bookmarks, "1790000000000000005");
+    expect(links.get(rewrite.id)?.map((l) => l.expanded_url)).toEqual([
+      "https://example.com/rust-indexer",
+    ]);
+    // Media t.co links are stored as media, not links
+    const chart = byTweetId(bookmarks, "1790000000000000004");
+    expect(links.get(chart.id)).toBeUndefined();
+    expect(media.get(chart.id)?.map((m) => m.alt_text)).toEqual(["Latency chart"]);
+    const quote = byTweetId(bookmarks, "1790000000000000003");
+    expect(referenced.get(quote.id)?.[0]).toMatchObject({
+      type: "quoted",
+      author_username: "bob",
+    });
+  });
+
+  test("an incremental sync stops at the first page of known bookmarks", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    env.api.fixture.tweets.unshift({
+      id: "1790000000000000006",
+      text: "A brand new bookmark",
+      created_at: "2024-05-06T12:00:00.000Z",
+      author_id: "2002",
+    });
+    env.api.requests.length = 0;
+
+    const result = await syncBookmarks(undefined, { mode: "incremental" });
+
+    expect(result.newBookmarks).toBe(1);
+    expect(result.totalBookmarks).toBe(6);
+    // The first page had something new, the second didn't
+    expect(env.api.requests.filter((r) => r.includes("/bookmarks"))).toHaveLength(2);
+    expect((await getBookmarks())[0]?.tweet_id).toBe("1790000000000000006");
+  });
+
+  test("a complete sync flags bookmarks that left the feed as removed", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    env.api.fixture.tweets = env.api.fixture.tweets.filter((t) => t.id !== "1790000000000000002");
+
+    const result = await syncBookmarks(undefined, { mode: "full" });
+
+    expect(result.removedBookmarks).toBe(1);
+    const removed = await getBookmarks(100, 0, "only");
+    expect(removed.map((b) => b.tweet_id)).toEqual(["1790000000000000002"]);
+  });
+
+  test("an incremental sync brings back a bookmark that was removed and bookmarked again", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const [removed] = env.api.fixture.tweets.splice(3, 1);
+    await syncBookmarks(undefined, { mode: "full" });
+    expect((await getBookmarks(100, 0, "only")).map((b) => b.tweet_id)).toEqual([removed!.id]);
+
+    // Bookmarked again, it's back at the top of the feed
+    env.api.fixture.tweets.unshift(removed!);
+    const result = await syncBookmarks(undefined, { mode: "incremental" });
+
+    expect(result.newBookmarks).toBe(0);
+    expect(await getBookmarks(100, 0, "only")).toHaveLength(0);
+  });
+
+  test("backfills expansions of bookmarks stored without them once", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    // As left by a sync from before expansions were stored
+    await getDb().execute("DELETE FROM bookmark_links");
+    await updateSyncState({ expansions_backfill_pending: 1 });
+
+    const result = await syncBookmarks(undefined, { mode: "incremental" });
+
+    expect(result.mode).toBe("full");
+    const [rewrite] = (await getBookmarks()).filter((b) => b.tweet_id === "1790000000000000005");
+    expect((await getLinksForBookmarks([rewrite!.id])).get(rewrite!.id)).toHaveLength(1);
+    expect((await getSyncState()).expansions_backfill_pending).toBe(0);
+    expect((await syncBookmarks(undefined, { mode: "incremental" })).mode).toBe("incremental");
+  });
+
+  test("an interrupted backfill resumes from its persisted cursor", async () => {
+    // users/me and the first page succeed, the second page fails
+    env.api.failNext(503, { after: 2 });
+    await expect(syncBookmarks(undefined, { mode: "full" })).rejects.toThrow("(503)");
+
+    expect(await hasPendingBackfill()).toBe(true);
+    const state = await getSyncState();
+    expect(state.pagination_token).toBe("2");
+    expect(state.backfill_position).toBe(2);
+    expect(await getBookmarks()).toHaveLength(2);
+
+    env.api.requests.length = 0;
+    const result = await syncBookmarks(undefined, { mode: "resume" });
+
+    expect(result.newBookmarks).toBe(3);
+    expect(env.api.requests[0]).toContain("pagination_token=2");
+    expect(await hasPendingBackfill()).toBe(false);
+
+    const bookmarks = await getBookmarks();
+    expect(bookmarks.map((b) => b.feed_position)).toEqual([0, 1, 2, 3, 4]);
+    expect(new Set(bookmarks.map((b) => b.bookmarked_at)).size).toBe(1);
+  });
+});
+
+describe("syncBookmarks with a large account", () => {
+  const env = useTestEnv();
+
+  test("doesn't flag bookmarks past the feed's 800 cap as removed", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const [template] = env.api.fixture.tweets;
+    const newer = Array.from({ length: 800 }, (_, i) => ({
+      ...template!,
+      id: String(1800000000000000000n + BigInt(i)),
+      text: `Newer bookmark ${i}`,
+      referenced_tweets: undefined,
+      attachments: undefined,
+    }));
+    env.api.fixture.tweets.unshift(...newer);
+
+    const result = await syncBookmarks(undefined, { mode: "full" });
+
+    // The five older bookmarks fell off the end of the feed but are still bookmarked
+    expect(result).toMatchObject({ newBookmarks: 800, removedBookmarks: 0, totalBookmarks: 805 });
+    expect(await getBookmarks(1000, 0, "only")).toHaveLength(0);
+  });
+});
+
+describe("syncBookmarks from a file", () => {
+  const env = useTestEnv();
+
+  test("a sparse file keeps what the API synced", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const path = join(env.dir, "bookmarks.ndjson");
+    await Bun.write(
+      path,
+      [
+        JSON.stringify({ id: "1790000000000000005" }),
+        JSON.stringify({ url: "https://x.com/alice/status/1790000000000000003" }),
+        JSON.stringify({ url: "https://x.com/carol/status/1790000000000000090", text: "New from a scraper" }),
+      ].join("\n")
+    );
+
+    const result = await syncBookmarks(undefined, { source: createFileSource(path) });
+
+    expect(result).toMatchObject({ newBookmarks: 1, updatedBookmarks: 2 });
+    const bookmarks = await getBookmarks();
+    expect(byTweetId(bookmarks, "1790000000000000005")).toMatchObject({
+      content: "Shipping a Rust rewrite of our indexer https://t.co/abc",
+      username: "alice",
+      like_count: 40,
+      retweet_count: 4,
+      conversation_id: "1790000000000000005",
+      created_at: "2024-05-05T12:00:00.000Z",
+    });
+    const quote = byTweetId(bookmarks, "1790000000000000003");
+    expect(quote.content).toBe(env.api.fixture.tweets.find((t) => t.id === quote.tweet_id)!.text);
+    expect(quote.url).toBe("https://x.com/alice/status/1790000000000000003");
+    expect(byTweetId(bookmarks, "1790000000000000090")).toMatchObject({
+      content: "New from a scraper",
+      username: "carol",
+      like_count: 0,
+    });
+    const links = await getLinksForBookmarks([byTweetId(bookmarks, "1790000000000000005").id]);
+    expect(links.size).toBe(1);
+  });
+
+  test("an import doesn't bring back bookmarks the feed flagged as removed", async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    env.api.fixture.tweets = env.api.fixture.tweets.filter((t) => t.id !== "1790000000000000002");
+    await syncBookmarks(undefined, { mode: "full" });
+
+    const path = join(env.dir, "bookmarks.ndjson");
+    await Bun.write(path, JSON.stringify({ id: "1790000000000000002" }));
+    await syncBookmarks(undefined, { source: createFileSource(path) });
+
+    expect((await getBookmarks(100, 0, "only")).map((b) => b.tweet_id)).toEqual(["1790000000000000002"]);
+  });
+
+  test("flags imported bookmarks the feed has seen once they leave it", async () => {
+    const path = join(env.dir, "bookmarks.ndjson");
+    await Bun.write(path, JSON.stringify({ id: "1790000000000000002" }));
+    await syncBookmarks(undefined, { source: createFileSource(path) });
+    await syncBookmarks(undefined, { mode: "full" });
+    env.api.fixture.tweets = env.api.fixture.tweets.filter((t) => t.id !== "1790000000000000002");
+
+    const result = await syncBookmarks(undefined, { mode: "full" });
+
+    expect(result.removedBookmarks).toBe(1);
+    expect(await getBookmarks(100, 0, "only")).toEqual([
+      expect.objectContaining({ tweet_id: "1790000000000000002", source: "file" }),
+    ]);
+  });
+});
@@ -0,0 +1,75 @@
+import { afterEach, describe, expect, test } from "bun:test";
+import { getBookmarks, getThreadTweetsForBookmarks } from "../src/db/queries";
+import type { Tweet } from "../src/twitter/client";
+import { syncBookmarks } from "../src/twitter/sync";
+import { useTestEnv } from "./helpers";
+
+const ROOT = "1790000000000000100";
+
+// A three-tweet self-thread by alice (2001), `daysAgo` old
+function thread(daysAgo: number): Tweet[] {
+  const createdAt = new Date(Date.now() - daysAgo * 24 * 60 * 60 * 1000).toISOString();
+  const tweet = (n: number, text: string): Tweet => ({
+    id: String(BigInt(ROOT) + BigInt(n)),
+    text,
+    created_at: createdAt,
+    author_id: "2001",
+    conversation_id: ROOT,
+    ...(n > 0 && {
+      in_reply_to_user_id: "2001",
+      referenced_tweets: [{ type: "replied_to" as const, id: String(BigInt(ROOT) + BigInt(n - 1)) }],
+    }),
+  });
+  return [tweet(0, "A thread on indexing"), tweet(1, "Part two: tokenizers"), tweet(2, "Part three: ranking")];
+}
+
+describe("thread reconstruction", () => {
+  const searchTweets: Tweet[] = [];
+  const env = useTestEnv({ searchTweets });
+
+  afterEach(() => {
+    searchTweets.length = 0;
+    delete process.env.TWITTER_API_TIER;
+  });
+
+  async function syncOnly(tweets: Tweet[], included: Tweet[] = []) {
+    env.api.fixture.tweets = tweets;
+    env.api.fixture.includedTweets = included;
+    return syncBookmarks(undefined, { mode: "full", includeThreads: true });
+  }
+
+  async function storedThread(): Promise<string[]> {
+    const [bookmark] = await getBookmarks(1);
+    const threads = await getThreadTweetsForBookmarks([bookmark!.id]);
+    return (threads.get(bookmark!.id) ?? []).map((t) => t.content);
+  }
+
+  test("rebuilds the thread around a bookmarked reply", async () => {
+    const tweets = thread(1);
+    searchTweets.push(...tweets);
+
+    const result = await syncOnly([tweets[1]!], [tweets[0]!]);
+
+    expect(result).toMatchObject({ threadsFound: 1, threadsSkipped: 0 });
+    expect(await storedThread()).toEqual(["A thread on indexing", "Part three: ranking"]);
+    expect((await getBookmarks(1))[0]!.thread_synced_at).not.toBeNull();
+  });
+
+  test("leaves threads older than recent search for full-archive search", async () => {
+    const tweets = thread(30);
+    searchTweets.push(...tweets);
+
+    const result = await syncOnly([tweets[0]!]);
+
+    expect(result).toMatchObject({ threadsFound: 0, threadsSkipped: 1 });
+    expect(env.api.requests.some((r) => r.includes("/tweets/search/"))).toBe(false);
+    expect((await getBookmarks(1))[0]!.thread_synced_at).toBeNull();
+
+    process.env.TWITTER_API_TIER = "pro";
+    const retried = await syncBookmarks(undefined, { mode: "full", includeThreads: true });
+
+    expect(retried).toMatchObject({ threadsFound: 1, threadsSkipped: 0 });
+    expect(env.api.requests.some((r) => r.includes("/tweets/search/all"))).toBe(true);
+    expect(await storedThread()).toEqual(["Part two: tokenizers", "Part three: ranking"]);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, test } from "bun:test";
+import { getAllBookmarks, getMe, type BookmarkPage } from "../src/twitter/client";
+import { useTestEnv } from "./helpers";
+
+describe("getAllBookmarks", () => {
+  const env = useTestEnv({ pageSize: 2 });
+
+  test("follows pagination tokens until the feed ends", async () => {
+    const pages: BookmarkPage[] = [];
+    const { tweets, users } = await getAllBookmarks(undefined, {
+      maxTotal: Infinity,
+      onPage: async (page) => {
+        pages.push(page);
+      },
+    });
+
+    expect(tweets.map((t) => t.id)).toEqual(env.api.fixture.tweets.map((t) => t.id));
+    expect(pages.map((p) => p.tweets.length)).toEqual([2, 2, 1]);
+    expect(pages.map((p) => p.nextToken)).toEqual(["2", "4", undefined]);
+    expect(users.get("2001")?.username).toBe("alice");
+  });
+
+  test("stops at maxTotal and when onPage returns false", async () => {
+    const { tweets } = await getAllBookmarks(undefined, { maxTotal: 3 });
+    expect(tweets).toHaveLength(4);
+
+    let pages = 0;
+    await getAllBookmarks(undefined, {
+      maxTotal: Infinity,
+      onPage: async () => ++pages < 2,
+    });
+    expect(pages).toBe(2);
+  });
+
+  test("resumes from a pagination token", async () => {
+    const { tweets } = await getAllBookmarks(undefined, {
+      maxTotal: Infinity,
+      paginationToken: "4",
+    });
+    expect(tweets.map((t) => t.id)).toEqual(["1790000000000000001"]);
+  });
+
+  test("includes media and referenced tweets with each page", async () => {
+    const pages: BookmarkPage[] = [];
+    await getAllBookmarks(undefined, {
+      maxTotal: 4,
+      onPage: async (page) => {
+        pages.push(page);
+      },
+    });
+
+    expect(pages[0]?.media.map((m) => m.media_key)).toEqual(["3_1790000000000000001"]);
+    expect(pages[1]?.includedTweets.map((t) => t.id)).toEqual(["1780000000000000000"]);
+    expect(pages[1]?.users.map((u) => u.username).sort()).toEqual(["alice", "bob"]);
+  });
+
+  test("waits for x-rate-limit-reset after a 429 and retries", async () => {
+    env.api.failNext(429);
+    const { tweets } = await getAllBookmarks(undefined, { maxTotal: 2 });
+
+    expect(tweets).toHaveLength(2);
+    // The 429 hit the user lookup that precedes the first page
+    expect(env.api.requests.map((r) => r.split("?")[0])).toEqual([
+      "/2/users/me",
+      "/2/users/me",
+      "/2/users/1000/bookmarks",
+    ]);
+  }, 10_000);
+
+  test("gives up after repeated 429s", async () => {
+    env.api.failNext(429, { times: 4 });
+    await expect(getMe()).rejects.toThrow("Rate limited by Twitter API");
+  }, 15_000);
+
+  test("surfaces other API errors", async () => {
+    env.api.failNext(503);
+    await expect(getAllBookmarks()).rejects.toThrow("Twitter API error (503)");
+  });
+});
@@ -0,0 +1,95 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { getBookmarks } from "../src/db/queries";
+import { DEFAULT_EMBEDDING_MODEL, findEmbeddingModel } from "../src/analysis/embeddings";
+import { resetAnnIndex } from "../src/analysis/annIndex";
+import { nearestBookmarks, setNativeVectorSearch } from "../src/analysis/search";
+import { dumpDatabase } from "../src/export";
+import { syncBookmarks } from "../src/twitter/sync";
+import { storeEmbedding, useTestEnv } from "./helpers";
+
+// A unit vector mostly along `axis`, tilted slightly towards `tilt`
+function vector(axis: number, tilt = 0, amount = 0): number[] {
+  const v = new Array<number>(DEFAULT_EMBEDDING_MODEL.dim).fill(0);
+  v[axis] = 1;
+  v[tilt]! += amount;
+  const norm = Math.hypot(...v);
+  return v.map((x) => x / norm);
+}
+
+describe("vector search", () => {
+  useTestEnv();
+
+  let ids: number[];
+
+  beforeEach(async () => {
+    await syncBookmarks(undefined, { mode: "full" });
+    const bookmarks = await getBookmarks(10);
+    ids = bookmarks.map((b) => b.id);
+    const vectors = [vector(0), vector(0, 1, 0.5), vector(1), vector(2), vector(0, 2, 2)];
+    for (const [i, id] of ids.entries()) {
+      await storeEmbedding(id, vectors[i]!);
+    }
+  });
+
+  afterEach(() => {
+    setNativeVectorSearch(true);
+    resetAnnIndex();
+  });
+
+  test("ranks by cosine similarity using the vector index", async () => {
+    const results = await nearestBookmarks(vector(0), 3);
+    expect(results.map((r) => r.bookmark.id)).toEqual([ids[0]!, ids[1]!, ids[4]!]);
+    expect(results[0]!.score).toBeCloseTo(1, 5);
+    expect(results[0]!.bookmark).not.toHaveProperty("embedding");
+    expect(results[0]!.bookmark.username).toBeTruthy();
+  });
+
+  test("ranks the same with every method", async () => {
+    const native = await nearestBookmarks(vector(0, 2, 0.3), 5);
+    for (const method of ["hnsw", "scan"] as const) {
+      const results = await nearestBookmarks(vector(0, 2, 0.3), 5, method);
+      expect(results.map((r) => r.bookmark.id)).toEqual(native.map((r) => r.bookmark.id));
+      for (const [i, result] of results.entries()) {
+        expect(result.score).toBeCloseTo(native[i]!.score, 5);
+      }
+    }
+  });
+
+  test("falls back when the vector index is unavailable", async () => {
+    const native = await nearestBookmarks(vector(1), 2);
+    setNativeVectorSearch(false);
+    expect((await nearestBookmarks(vector(1), 2)).map((r) => r.bookmark.id)).toEqual(
+      native.map((r) => r.bookmark.id)
+    );
+  });
+
+  test("refuses to compare vectors from another model", async () => {
+    await expect(nearestBookmarks(new Array(768).fill(0.1), 3)).rejects.toThrow("768");
+
+    const [other] = await getBookmarks(1);
+    await storeEmbedding(other!.id, vector(0), findEmbeddingModel("bge-small")!);
+    for (const method of ["native", "hnsw", "scan"] as const) {
+      const results = await nearestBookmarks(vector(0), 5, method);
+      expect(results.map((r) => r.bookmark.id)).not.toContain(other!.id);
+    }
+  });
+
+  test("looks past the vector index's nearest when they're from another model", async () => {
+    const bge = findEmbeddingModel("bge-small")!;
+    await storeEmbedding(ids[0]!, vector(0), bge);
+    await storeEmbedding(ids[1]!, vector(0), bge);
+    expect((await nearestBookmarks(vector(0), 1, "native")).map((r) => r.bookmark.id)).toEqual([ids[4]!]);
+
+    // Every neighbour the index returns is from the other model
+    await storeEmbedding(ids[2]!, vector(0), bge);
+    await storeEmbedding(ids[4]!, vector(0), bge);
+    expect((await nearestBookmarks(vector(0), 1, "native")).map((r) => r.bookmark.id)).toEqual([ids[3]!]);
+  });
+
+  test("dumps embeddings as JSON arrays", async () => {
+    const dump = await dumpDatabase();
+    const embedding = JSON.parse(dump.bookmarks.find((b) => b.id === ids[2])!.embedding!);
+    expect(embedding).toHaveLength(DEFAULT_EMBEDDING_MODEL.dim);
+    expect(embedding[1]).toBe(1);
+  });
+});